@@ -12,4 +12,36 @@ export default [
   ...tseslint.configs.recommended,
   pluginReact.configs.flat.recommended,
   eslintConfigPrettier,
+  {
+    // The automaton model, the utilities that work on it and the command-line
+    // runner must run without the GUI (such as under Node), so they can't
+    // depend on it
+    files: [
+      "src/cli.ts",
+      "src/SerializableAutomaton.ts",
+      "src/AutomatonType.ts",
+      "src/utilities/**",
+    ],
+    ignores: [
+      "src/utilities/ActionStackUtilities.tsx",
+      "src/utilities/DownloadUtilities.ts",
+    ],
+    rules: {
+      "no-restricted-imports": [
+        "error",
+        {
+          patterns: [
+            "**/StateManager",
+            "**/UndoRedoManager",
+            "**/*Wrapper",
+            "**/components/*",
+            "konva",
+            "konva/*",
+            "react",
+            "react-dom",
+          ],
+        },
+      ],
+    },
+  },
 ];
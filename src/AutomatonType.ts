@@ -0,0 +1,60 @@
+/**
+ * The different kinds of automata that can be built. The value of each
+ * entry is what gets written to saved automaton files.
+ *
+ * - `DFA` - A deterministic finite automaton. Every state needs exactly one
+ * transition for each token, and transitions on the empty string are not
+ * allowed.
+ * - `NFA` - A nondeterministic finite automaton. States may have any number
+ * of transitions for a token, including transitions on the empty string.
+ * - `PDA` - A nondeterministic pushdown automaton. Each transition has a list
+ * of rules that read an input token (or ε), pop a stack symbol (or ε) and
+ * push a string of stack symbols.
+ * - `TM` - A deterministic single-tape Turing machine. Each transition has a
+ * list of rules that read a tape symbol, write a tape symbol and move the
+ * head left, right or not at all.
+ * - `Mealy` - A deterministic finite transducer that outputs a symbol for
+ * each transition it follows.
+ * - `Moore` - A deterministic finite transducer that outputs a symbol for
+ * each state it enters.
+ */
+export enum AutomatonType {
+  DFA = "dfa",
+  NFA = "nfa",
+  PDA = "pda",
+  TM = "tm",
+  Mealy = "mealy",
+  Moore = "moore",
+}
+
+/**
+ * Checks if the given value is one of the known automaton types.
+ * @param value The value to check, usually read from a saved automaton file.
+ * @returns {boolean} `true` if the value is a valid `AutomatonType`, and
+ * `false` otherwise.
+ */
+export function isAutomatonType(value: unknown): value is AutomatonType {
+  return Object.values(AutomatonType).includes(value as AutomatonType);
+}
+
+/**
+ * Checks if the given automaton type is a finite automaton (a DFA or an
+ * NFA), which the finite automaton tools (such as converting to a DFA or a
+ * regular expression) work with.
+ * @param {AutomatonType} type The automaton type to check.
+ * @returns {boolean} `true` if the type is `DFA` or `NFA`.
+ */
+export function isFiniteAutomatonType(type: AutomatonType): boolean {
+  return type === AutomatonType.DFA || type === AutomatonType.NFA;
+}
+
+/**
+ * Checks if the given automaton type is a transducer (a Mealy or Moore
+ * machine), which produces an output string rather than accepting or
+ * rejecting.
+ * @param {AutomatonType} type The automaton type to check.
+ * @returns {boolean} `true` if the type is `Mealy` or `Moore`.
+ */
+export function isTransducerType(type: AutomatonType): boolean {
+  return type === AutomatonType.Mealy || type === AutomatonType.Moore;
+}
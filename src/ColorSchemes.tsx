@@ -30,6 +30,12 @@ export const LightColorScheme = {
   errorNodeStrokeColor: "rgb(220, 38, 37)", // Dark red
   errorIconFillColor: "rgb(220, 38, 37)", // Dark red
   errorIconTextColor: "white",
+
+  dimmedNodeOpacity: 0.4,
+
+  simulationNodeFillColor: "rgb(220, 252, 231)", // Light green
+  simulationNodeStrokeColor: "rgb(22, 163, 74)", // Dark green
+  simulationTransitionColor: "rgb(22, 163, 74)", // Dark green
 };
 
 /**
@@ -64,6 +70,12 @@ export const DarkColorScheme = {
   errorNodeStrokeColor: "red",
   errorIconFillColor: "red",
   errorIconTextColor: "white",
+
+  dimmedNodeOpacity: 0.35,
+
+  simulationNodeFillColor: "#14532d",
+  simulationNodeStrokeColor: "rgb(74, 222, 128)",
+  simulationTransitionColor: "rgb(74, 222, 128)",
 };
 
 /**
@@ -98,4 +110,10 @@ export interface ColorScheme {
   errorNodeStrokeColor: string;
   errorIconFillColor: string;
   errorIconTextColor: string;
+
+  dimmedNodeOpacity: number;
+
+  simulationNodeFillColor: string;
+  simulationNodeStrokeColor: string;
+  simulationTransitionColor: string;
 }
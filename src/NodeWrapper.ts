@@ -1,9 +1,12 @@
 import Konva from "konva";
-import StateManager, { SerializableState } from "./StateManager";
+import StateManager from "./StateManager";
+import { SerializableState } from "./SerializableAutomaton";
 import { Tool } from "./Tool";
 import { Vector2d } from "konva/lib/types";
 import SelectableObject from "./SelectableObject";
 import { v4 as uuidv4 } from "uuid";
+import TokenWrapper from "./TokenWrapper";
+import { AutomatonType } from "./AutomatonType";
 
 /**
  * The class that holds node information (label, start node status, etc)
@@ -30,6 +33,12 @@ export default class NodeWrapper extends SelectableObject {
    */
   private nodeAcceptCircle: Konva.Circle;
 
+  /**
+   * The Konva object used to draw the dashed inner circle on the node,
+   * indicating that it is a reject state (used by Turing machines).
+   */
+  private nodeRejectCircle: Konva.Circle;
+
   /** The Konva object used to draw the node's label. */
   private nodeLabel: Konva.Text;
 
@@ -53,6 +62,16 @@ export default class NodeWrapper extends SelectableObject {
 
   private _isErrorState: boolean = false;
   private _isSelected: boolean = false;
+  private _isDimmed: boolean = false;
+
+  /** Whether the simulation player shows the machine in this state. */
+  private _isSimulationActive: boolean = false;
+
+  /**
+   * Whether the simulation player shows a branch of the computation ending
+   * in this state at the current step.
+   */
+  private _isSimulationDead: boolean = false;
 
   /**
    * Whether or not this node is an accepting node.
@@ -62,6 +81,24 @@ export default class NodeWrapper extends SelectableObject {
    */
   private _isAcceptNode: boolean = false;
 
+  /**
+   * Whether or not this node is a reject node, where a Turing machine halts
+   * and rejects.
+   *
+   * **NOTE:** This should almost never be directly modified. Instead, use
+   * `NodeWrapper.isRejectNode` (getter/setter).
+   */
+  private _isRejectNode: boolean = false;
+
+  /**
+   * The symbol this node outputs when it is entered, used when the automaton
+   * is a Moore machine.
+   *
+   * **NOTE:** This should almost never be directly modified. Instead, use
+   * `NodeWrapper.output` (getter/setter).
+   */
+  private _output: TokenWrapper | null = null;
+
   /**
    * The label text for this node.
    *
@@ -94,6 +131,7 @@ export default class NodeWrapper extends SelectableObject {
       x: this.nodeGroup.x(),
       y: this.nodeGroup.y(),
       label: this.labelText,
+      ...(this._output && { output: this._output.id }),
     };
   }
 
@@ -151,6 +189,17 @@ export default class NodeWrapper extends SelectableObject {
       visible: this._isAcceptNode,
     });
 
+    this.nodeRejectCircle = new Konva.Circle({
+      x: 0,
+      y: 0,
+      radius: NodeWrapper.NodeRadius * 0.8,
+      fill: "transparent",
+      stroke: StateManager.colorScheme.nodeAcceptStrokeColor,
+      strokeWidth: 1.5,
+      dash: [4, 3],
+      visible: this._isRejectNode && !this._isAcceptNode,
+    });
+
     this.nodeLabel = new Konva.Text({
       x: (-NodeWrapper.NodeRadius * 2 * 0.75) / 2,
       y: (-NodeWrapper.NodeRadius * 2 * 0.75) / 2,
@@ -158,7 +207,7 @@ export default class NodeWrapper extends SelectableObject {
       height: NodeWrapper.NodeRadius * 2 * 0.75,
       align: "center",
       verticalAlign: "middle",
-      text: this._labelText,
+      text: this.displayText,
       fontSize: 15,
       fill: StateManager.colorScheme.nodeLabelColor,
     });
@@ -201,6 +250,7 @@ export default class NodeWrapper extends SelectableObject {
     this.nodeGroup.add(this.nodePickup);
     this.nodeGroup.add(this.nodeBackground);
     this.nodeGroup.add(this.nodeAcceptCircle);
+    this.nodeGroup.add(this.nodeRejectCircle);
     this.nodeGroup.add(this.nodeLabel);
     this.nodeGroup.add(this.errorIcon);
     this.nodeGroup.add(this.errorText);
@@ -225,7 +275,7 @@ export default class NodeWrapper extends SelectableObject {
     let fontSize = this.nodeLabel.fontSize();
 
     const tempText = new Konva.Text({
-      text: this._labelText,
+      text: this.displayText,
       fontSize: fontSize,
     });
 
@@ -309,6 +359,20 @@ export default class NodeWrapper extends SelectableObject {
     this.isAcceptNode = !this._isAcceptNode;
   }
 
+  /**
+   * Checks if this node is a reject node, where a Turing machine halts and
+   * rejects. This is unrelated to a node not being an accepting node.
+   */
+  public get isRejectNode(): boolean {
+    return this._isRejectNode;
+  }
+
+  /** Sets whether this node is a reject node. */
+  public set isRejectNode(value: boolean) {
+    this._isRejectNode = value;
+    this.updateAppearance();
+  }
+
   /**
    * Updates the appearance of the node to indicate that a transition is being
    * dragged towards it.
@@ -570,10 +634,41 @@ export default class NodeWrapper extends SelectableObject {
   /** Sets the text that this node is labeled with. */
   public set labelText(value: string) {
     this._labelText = value;
-    this.nodeLabel.text(this._labelText);
+    this.resetLabel();
+  }
+
+  /**
+   * The text drawn inside the node. For a Moore machine, this includes the
+   * node's output (e.g. `q0/1`); otherwise, it is just the label.
+   */
+  private get displayText(): string {
+    if (StateManager.automatonType === AutomatonType.Moore) {
+      return `${this._labelText}/${this._output?.symbol ?? "ε"}`;
+    }
+    return this._labelText;
+  }
+
+  /**
+   * Redraws the text inside the node. This needs to be called when anything
+   * shown in it changes, such as the automaton type or the output symbol's
+   * text.
+   */
+  public resetLabel() {
+    this.nodeLabel.text(this.displayText);
     this.adjustFontSize();
   }
 
+  /** Gets the symbol this node outputs in a Moore machine, if any. */
+  public get output(): TokenWrapper | null {
+    return this._output;
+  }
+
+  /** Sets the symbol this node outputs in a Moore machine. */
+  public set output(value: TokenWrapper | null) {
+    this._output = value;
+    this.resetLabel();
+  }
+
   /**
    * Updates the node to match the current color scheme (light/dark mode).
    */
@@ -584,6 +679,9 @@ export default class NodeWrapper extends SelectableObject {
     this.nodeAcceptCircle.stroke(
       StateManager.colorScheme.nodeAcceptStrokeColor,
     );
+    this.nodeRejectCircle.stroke(
+      StateManager.colorScheme.nodeAcceptStrokeColor,
+    );
 
     // Updating error icon colors
     this.errorIcon.fill(StateManager.colorScheme.errorIconFillColor);
@@ -601,6 +699,38 @@ export default class NodeWrapper extends SelectableObject {
     this.updateAppearance();
   }
 
+  /**
+   * Sets whether the node is dimmed (drawn faded out) and updates its
+   * appearance. Used for nodes that can't affect whether a string is
+   * accepted, such as unreachable nodes.
+   * @param isDimmed - True if the node should be dimmed; false otherwise.
+   */
+  public setDimmedState(isDimmed: boolean) {
+    this._isDimmed = isDimmed;
+    this.updateAppearance();
+  }
+
+  /**
+   * Sets whether the node is highlighted as a state the machine is in during
+   * a simulation, and updates its appearance.
+   * @param isActive - True if the machine is in this state; false otherwise.
+   */
+  public setSimulationActiveState(isActive: boolean) {
+    this._isSimulationActive = isActive;
+    this.updateAppearance();
+  }
+
+  /**
+   * Sets whether the node is faded out as a state where a branch of a
+   * nondeterministic run just ended, and updates its appearance.
+   * @param isDead - True if a branch just ended in this state; false
+   * otherwise.
+   */
+  public setSimulationDeadState(isDead: boolean) {
+    this._isSimulationDead = isDead;
+    this.updateAppearance();
+  }
+
   private updateAppearance() {
     // Reset node appearance to default
     this.nodeBackground.fill(StateManager.colorScheme.nodeFill);
@@ -619,6 +749,17 @@ export default class NodeWrapper extends SelectableObject {
       this.errorText.visible(true);
     }
 
+    if (this._isSimulationActive) {
+      // Simulation appearance, so the current state stands out during a run
+      this.nodeBackground.fill(
+        StateManager.colorScheme.simulationNodeFillColor,
+      );
+      this.nodeBackground.stroke(
+        StateManager.colorScheme.simulationNodeStrokeColor,
+      );
+      this.nodeBackground.strokeWidth(NodeWrapper.SelectedStrokeWidth);
+    }
+
     if (this._isSelected) {
       // Selected state appearance
       // Blue selection stroke (overrides error stroke)
@@ -633,8 +774,20 @@ export default class NodeWrapper extends SelectableObject {
     );
     this.nodeAcceptCircle.visible(this._isAcceptNode);
 
+    // An accept state's solid circle takes priority over the dashed one
+    this.nodeRejectCircle.stroke(
+      StateManager.colorScheme.nodeAcceptStrokeColor,
+    );
+    this.nodeRejectCircle.visible(this._isRejectNode && !this._isAcceptNode);
+
     this.nodeLabel.fill(StateManager.colorScheme.nodeLabelColor);
 
+    this.nodeGroup.opacity(
+      this._isDimmed || this._isSimulationDead
+        ? StateManager.colorScheme.dimmedNodeOpacity
+        : 1,
+    );
+
     this.nodeGroup.getLayer()?.batchDraw();
   }
 }
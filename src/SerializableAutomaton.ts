@@ -0,0 +1,158 @@
+import { AutomatonType } from "./AutomatonType";
+import { PDAAcceptanceMode } from "./utilities/PDAUtilities";
+import { TMMove } from "./utilities/TMUtilities";
+import { SerializableTestCase } from "./utilities/TestUtilities";
+import { TokenSelectorKind } from "./utilities/TokenSelectorUtilities";
+
+/**
+ * A representation of an automaton that can be converted to and from a JSON
+ * string.
+ */
+export interface SerializableAutomaton {
+  states: Array<SerializableState>;
+  alphabet: Array<SerializableToken>;
+  transitions: Array<SerializableTransition>;
+  startState: string;
+  acceptStates: Array<string>;
+
+  /**
+   * The kind of automaton this is. Files saved before this was recorded
+   * won't have it, in which case the automaton is a DFA.
+   */
+  type?: AutomatonType;
+
+  /** The stack symbols, only saved for PDAs. */
+  stackAlphabet?: Array<SerializableToken>;
+
+  /**
+   * How strings are accepted, only saved for PDAs. If it is missing, strings
+   * are accepted by final state.
+   */
+  pdaAcceptance?: PDAAcceptanceMode;
+
+  /** The IDs of the reject states, only saved for Turing machines. */
+  rejectStates?: Array<string>;
+
+  /**
+   * The tape symbols that aren't in the input alphabet, only saved for
+   * Turing machines.
+   */
+  tapeAlphabet?: Array<SerializableToken>;
+
+  /**
+   * The most steps the machine may take when testing a string, only saved
+   * for Turing machines.
+   */
+  tmStepLimit?: number;
+
+  /**
+   * The text that separates tokens in test strings. Test strings are split
+   * by longest match against the alphabet if this isn't set.
+   */
+  tokenSeparator?: string;
+
+  /** The symbols that can be output, only saved for Mealy and Moore machines. */
+  outputAlphabet?: Array<SerializableToken>;
+
+  /**
+   * The tests from the Tests panel. Files saved before tests were stored
+   * with the automaton won't have them.
+   */
+  tests?: Array<SerializableTestCase>;
+}
+
+/**
+ * A representation of a node that can be converted to and from a JSON string.
+ */
+export interface SerializableState {
+  id: string;
+  x: number;
+  y: number;
+  label: string;
+
+  /**
+   * The ID of the symbol this state outputs in a Moore machine, if it
+   * outputs anything.
+   */
+  output?: string;
+}
+
+/**
+ * A representation of a token that can be converted to and from a JSON string.
+ */
+export interface SerializableToken {
+  id: string;
+  symbol: string;
+}
+
+/**
+ * A representation of a transition that can be converted to and from a JSON
+ * string.
+ */
+export interface SerializableTransition {
+  id: string;
+  source: string;
+  dest: string;
+  isEpsilonTransition: boolean;
+  tokens: Array<string>;
+
+  /** The rules the transition can be followed on, only used by PDAs. */
+  pdaRules?: Array<SerializablePDARule>;
+
+  /** The rules the transition can be followed on, only used by TMs. */
+  tmRules?: Array<SerializableTMRule>;
+
+  /**
+   * The symbol output for each input token, only used by Mealy machines.
+   * Tokens without an output aren't listed.
+   */
+  outputs?: Array<SerializableTransitionOutput>;
+
+  /**
+   * How the transition picks its tokens, if they aren't listed one by one.
+   * `tokens` then holds the tokens the selector picked when the automaton
+   * was saved.
+   */
+  tokenSelector?: SerializableTokenSelector;
+}
+
+/**
+ * A representation of a Mealy machine transition's output for one input
+ * token, with both stored by ID.
+ */
+export interface SerializableTransitionOutput {
+  token: string;
+  output: string;
+}
+
+/**
+ * A representation of a transition's token selector that can be converted to
+ * and from a JSON string. See `TokenSelector` for what each field means; here,
+ * tokens are stored by ID.
+ */
+export interface SerializableTokenSelector {
+  kind: TokenSelectorKind;
+  except: Array<string>;
+}
+
+/**
+ * A representation of a PDA transition's rule that can be converted to and
+ * from a JSON string. See `PDARule` for what each field means; here, tokens
+ * and stack symbols are stored by ID.
+ */
+export interface SerializablePDARule {
+  input: string | null;
+  pop: string | null;
+  push: Array<string>;
+}
+
+/**
+ * A representation of a Turing machine transition's rule that can be
+ * converted to and from a JSON string. See `TMRule` for what each field
+ * means; here, tape symbols are stored by ID.
+ */
+export interface SerializableTMRule {
+  read: string | null;
+  write: string | null;
+  move: TMMove;
+}
@@ -1,17 +1,58 @@
 import NodeWrapper from "./NodeWrapper";
 import { Tool } from "./Tool";
 import Konva from "konva";
-import TransitionWrapper from "./TransitionWrapper";
+import TransitionWrapper, {
+  PDARule,
+  TMRule,
+  TokenSelector,
+  tokenSelectorLabel,
+} from "./TransitionWrapper";
 import SelectableObject from "./SelectableObject";
 import TokenWrapper from "./TokenWrapper";
 import { ChangeEvent } from "react";
 import { LightColorScheme, DarkColorScheme } from "./ColorSchemes";
 import DFA from "automaton-kit/lib/dfa/DFA";
-import DFATransition from "automaton-kit/lib/dfa/DFATransition";
-import DFAState from "automaton-kit/lib/dfa/DFAState";
-import { convertIDtoLabelOrSymbol } from "./utilities/AutomatonUtilities";
+import { toAutomatonKitDFA } from "./utilities/AutomatonRunUtilities";
+import { SerializableAutomaton } from "./SerializableAutomaton";
 import UndoRedoManager, { Action, ActionData } from "./UndoRedoManager";
 import { Vector2d } from "konva/lib/types";
+import {
+  AutomatonType,
+  isFiniteAutomatonType,
+  isTransducerType,
+} from "./AutomatonType";
+import { subsetConstruction } from "./utilities/NFAUtilities";
+import { layoutAutomaton } from "./utilities/LayoutUtilities";
+import {
+  addTrapState,
+  complementDFA,
+  isDeterministic,
+  isTrapState,
+  minimizeDFA,
+} from "./utilities/DFAUtilities";
+import {
+  ProductOperation,
+  productAutomaton,
+} from "./utilities/ProductUtilities";
+import { PDAAcceptanceMode } from "./utilities/PDAUtilities";
+import {
+  DefaultTMStepLimit,
+  MaxTMStepLimit,
+  TMConfiguration,
+} from "./utilities/TMUtilities";
+import { TokenizeResult, tokenizeInput } from "./utilities/TokenizerUtilities";
+import { Simulation, SimulationStep } from "./utilities/SimulationUtilities";
+import { TestCase, toTestCase } from "./utilities/TestUtilities";
+import {
+  MaxTokenRangeSize,
+  expandTokenRange,
+  expandTokenSelectors,
+} from "./utilities/TokenSelectorUtilities";
+import {
+  parseRegex,
+  RegexNode,
+  thompsonConstruction,
+} from "./utilities/RegexUtilities";
 
 /**
  * The "engine" behind the Automaton Builder GUI. It handles a lot of the
@@ -40,6 +81,88 @@ export default class StateManager {
   /** Holds all of the tokens in the automaton. */
   private static _alphabet: Array<TokenWrapper> = [];
 
+  /**
+   * The kind of automaton being built, which determines how it is evaluated.
+   */
+  private static _automatonType: AutomatonType = AutomatonType.DFA;
+
+  /** Holds all of the stack symbols, used when the automaton is a PDA. */
+  private static _stackAlphabet: Array<TokenWrapper> = [];
+
+  /** How the automaton accepts strings when it is a PDA. */
+  private static _pdaAcceptance: PDAAcceptanceMode =
+    PDAAcceptanceMode.FinalState;
+
+  /**
+   * Holds the tape symbols that aren't in the input alphabet, used when the
+   * automaton is a Turing machine.
+   */
+  private static _tapeAlphabet: Array<TokenWrapper> = [];
+
+  /** The most steps a Turing machine may take when testing a string. */
+  private static _tmStepLimit: number = DefaultTMStepLimit;
+
+  /**
+   * The text that separates tokens in test strings, or an empty string to
+   * split test strings by longest match against the alphabet.
+   */
+  private static _tokenSeparator: string = "";
+
+  /**
+   * Holds the symbols the automaton can output, used when it is a Mealy or
+   * Moore machine.
+   */
+  private static _outputAlphabet: Array<TokenWrapper> = [];
+
+  /**
+   * The Turing machine configuration being shown on the tape strip while
+   * stepping through a run, or `null` if no tape is being shown.
+   */
+  private static _tapeConfiguration: TMConfiguration | null = null;
+
+  /** Functions to call whenever the tape configuration being shown changes. */
+  private static tapeListeners = new Set<() => void>();
+
+  /**
+   * The run being played back by the simulation player, or `null` if no run
+   * is being played back.
+   */
+  private static _simulation: Simulation | null = null;
+
+  /** The index of the step of the simulation being shown. */
+  private static _simulationStep: number = 0;
+
+  /**
+   * A function to call with the index of the step being shown whenever it
+   * changes, and with `null` once the simulation stops.
+   */
+  private static _onSimulationStep: ((step: number | null) => void) | null =
+    null;
+
+  /** Functions to call whenever the simulation or its step changes. */
+  private static simulationListeners = new Set<() => void>();
+
+  /**
+   * The tests shown in the Tests panel. They are saved in the same file as
+   * the automaton, but changing them can't be undone.
+   */
+  private static _tests: Array<TestCase> = [];
+
+  /**
+   * Functions to call whenever the tests change, or whether they are run
+   * automatically changes.
+   */
+  private static testsListeners = new Set<() => void>();
+
+  /** Whether each test passed when it was last run, by the test's ID. */
+  private static _testResults: Record<string, boolean> = {};
+
+  /** Functions to call whenever the test results change. */
+  private static testResultsListeners = new Set<() => void>();
+
+  /** Whether every test is run again each time the automaton changes. */
+  private static _autoRunTests: boolean = false;
+
   /** Holds all of the currently selected objects (nodes and transitions). */
   private static _selectedObjects: Array<SelectableObject> = [];
 
@@ -124,6 +247,7 @@ export default class StateManager {
   static setDebug() {
     if (this.debugActive) {
       StateManager.notifyListeners();
+      StateManager.stopSimulation();
     }
 
     StateManager.debugActive = !StateManager.debugActive;
@@ -140,13 +264,6 @@ export default class StateManager {
   static unsubscribe(listener: () => void) {
     StateManager.listeners.delete(listener);
   }
-  static debugOptions = {
-    Left: -1,
-    Right: 1,
-    KillDebug: -10,
-    Other: 0,
-  } as const;
-
   /** Returns the the curent clean state of the file */
 
   public static checkDebug() {
@@ -698,6 +815,85 @@ export default class StateManager {
     UndoRedoManager.pushAction(setNodesIsAcceptAction);
   }
 
+  /**
+   * Pushes an action to the action stack that sets the reject status of the
+   * given nodes. Reject nodes are only used by Turing machines.
+   * @param nodes The nodes to set the reject status of.
+   * @param isReject Whether or not the given nodes should be reject nodes.
+   */
+  public static setNodesIsReject(nodes: NodeWrapper[], isReject: boolean) {
+    if (this.debugActive) return;
+    const oldValues = nodes.map((node) => node.isRejectNode);
+
+    const setNodesIsRejectForward = (data: SetNodesIsAcceptActionData) => {
+      data.nodes.forEach((node) => {
+        node.isRejectNode = data.newValue;
+      });
+    };
+
+    const setNodesIsRejectBackward = (data: SetNodesIsAcceptActionData) => {
+      data.nodes.forEach((node, i) => {
+        node.isRejectNode = data.oldValues[i];
+      });
+    };
+
+    const subject =
+      nodes.length == 1
+        ? `"${nodes[0].labelText}"`
+        : `${nodes.length} selected states`;
+    const setNodesIsRejectAction = new Action(
+      "setNodesIsReject",
+      isReject
+        ? `Mark ${subject} as Reject States`
+        : `Unmark ${subject} as Reject States`,
+      setNodesIsRejectForward,
+      setNodesIsRejectBackward,
+      { oldValues: oldValues, newValue: isReject, nodes: nodes },
+    );
+    UndoRedoManager.pushAction(setNodesIsRejectAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that sets the symbol the given
+   * nodes output in a Moore machine.
+   * @param nodes The nodes to set the output of.
+   * @param output The symbol to output, or `null` to output nothing.
+   */
+  public static setNodesOutput(
+    nodes: NodeWrapper[],
+    output: TokenWrapper | null,
+  ) {
+    if (this.debugActive) return;
+    const oldOutputs = nodes.map((node) => node.output);
+
+    const setNodesOutputForward = (data: SetNodesOutputActionData) => {
+      data.nodes.forEach((node) => {
+        node.output = data.newOutput;
+      });
+    };
+
+    const setNodesOutputBackward = (data: SetNodesOutputActionData) => {
+      data.nodes.forEach((node, i) => {
+        node.output = data.oldOutputs[i];
+      });
+    };
+
+    const subject =
+      nodes.length == 1
+        ? `"${nodes[0].labelText}"`
+        : `${nodes.length} selected states`;
+    const setNodesOutputAction = new Action(
+      "setNodesOutput",
+      output
+        ? `Set Output of ${subject} to "${output.symbol}"`
+        : `Clear Output of ${subject}`,
+      setNodesOutputForward,
+      setNodesOutputBackward,
+      { oldOutputs: oldOutputs, newOutput: output, nodes: nodes },
+    );
+    UndoRedoManager.pushAction(setNodesOutputAction);
+  }
+
   /**
    * Pushes an action to the action stack that sets the given node to be the
    * automaton's start node.
@@ -859,6 +1055,8 @@ export default class StateManager {
             );
             newNode.labelText = obj.labelText; // Copy label
             newNode.isAcceptNode = obj.isAcceptNode; // Copy accept state status
+            newNode.isRejectNode = obj.isRejectNode; // Copy reject state status
+            newNode.output = obj.output; // Copy Moore output
             StateManager._nodeWrappers.push(newNode);
             StateManager._nodeLayer.add(newNode.nodeGroup);
 
@@ -881,6 +1079,12 @@ export default class StateManager {
                 obj.isEpsilonTransition,
                 new Set(obj.tokens), // Copy tokens
               );
+              newTransition.pdaRules = [...obj.pdaRules];
+              newTransition.tmRules = [...obj.tmRules];
+              newTransition.tokenSelector = obj.tokenSelector;
+              obj.tokens.forEach((tok) =>
+                newTransition.setOutput(tok, obj.outputFor(tok)),
+              );
 
               StateManager._transitionWrappers.push(newTransition);
               StateManager._transitionLayer.add(newTransition.konvaGroup);
@@ -1287,6 +1491,60 @@ export default class StateManager {
     UndoRedoManager.pushAction(addTokenAction);
   }
 
+  /**
+   * Pushes an action to the action stack that adds a token for each
+   * character in a range, such as `a-z`, in one step. Characters that are
+   * already tokens in the alphabet are skipped.
+   * @param range The range to add, written as the first character, a dash,
+   * then the last character.
+   * @returns {[boolean, string]} Whether or not any tokens were added, and if
+   * not, a message explaining why.
+   */
+  public static addTokenRange(range: string): [boolean, string] {
+    if (this.debugActive) {
+      return [false, "Tokens can't be added in Debug Mode."];
+    }
+    const symbols = expandTokenRange(range);
+    if (symbols === null) {
+      return [false, "Write a range as two characters with a dash, like a-z."];
+    }
+    if (symbols.length > MaxTokenRangeSize) {
+      return [
+        false,
+        `A range can't have more than ${MaxTokenRangeSize} characters.`,
+      ];
+    }
+
+    const newTokens = symbols
+      .filter(
+        (symbol) =>
+          !StateManager._alphabet.some((tok) => tok.symbol === symbol),
+      )
+      .map((symbol) => new TokenWrapper(symbol));
+    if (newTokens.length === 0) {
+      return [false, "Every character in the range is already a token."];
+    }
+
+    const addTokenRangeForward = (data: AddTokenRangeActionData) => {
+      StateManager._alphabet.push(...data.tokens);
+    };
+    const addTokenRangeBackward = (data: AddTokenRangeActionData) => {
+      StateManager._alphabet = StateManager._alphabet.filter(
+        (i) => !data.tokens.includes(i),
+      );
+    };
+
+    const addTokenRangeAction = new Action(
+      "addTokenRange",
+      `Add Tokens ${range.trim()}`,
+      addTokenRangeForward,
+      addTokenRangeBackward,
+      { tokens: newTokens },
+    );
+    UndoRedoManager.pushAction(addTokenRangeAction);
+    return [true, ""];
+  }
+
   /**
    * Pushes an action to the action stack that removes the given token from
    * the automaton.
@@ -1297,17 +1555,48 @@ export default class StateManager {
     let transitionsUsingToken = StateManager._transitionWrappers.filter(
       (trans) => trans.hasToken(token),
     );
+    const oldPDARules = StateManager.pdaRulesUsingToken(token);
+    const oldTMRules = StateManager.tmRulesUsingToken(token);
+    const oldSelectors = new Map<TransitionWrapper, TokenSelector>();
+    StateManager._transitionWrappers.forEach((trans) => {
+      if (trans.tokenSelector?.except.includes(token)) {
+        oldSelectors.set(trans, trans.tokenSelector);
+      }
+    });
 
     let removeTokenForward = (data: RemoveTokenActionData) => {
       StateManager._alphabet = StateManager._alphabet.filter(
         (i) => i !== data.token,
       );
       transitionsUsingToken.forEach((trans) => trans.removeToken(token));
+      oldPDARules.forEach((rules, trans) => {
+        trans.pdaRules = rules.filter((rule) => rule.input !== data.token);
+      });
+      oldTMRules.forEach((rules, trans) => {
+        trans.tmRules = rules.filter(
+          (rule) => rule.read !== data.token && rule.write !== data.token,
+        );
+      });
+      oldSelectors.forEach((selector, trans) => {
+        trans.tokenSelector = {
+          ...selector,
+          except: selector.except.filter((tok) => tok !== data.token),
+        };
+      });
     };
 
     let removeTokenBackward = (data: RemoveTokenActionData) => {
       StateManager._alphabet.push(data.token);
       transitionsUsingToken.forEach((trans) => trans.addToken(token));
+      oldPDARules.forEach((rules, trans) => {
+        trans.pdaRules = rules;
+      });
+      oldTMRules.forEach((rules, trans) => {
+        trans.tmRules = rules;
+      });
+      oldSelectors.forEach((selector, trans) => {
+        trans.tokenSelector = selector;
+      });
     };
 
     let removeTokenAction = new Action(
@@ -1321,175 +1610,685 @@ export default class StateManager {
   }
 
   /**
-   * Pushes an action to the action stack that sets the given token's symbol
-   * to the provided symbol.
-   * @param token The token to set the symbol/label of.
-   * @param newSymbol The new symbol/label for the token.
+   * Finds the PDA rules of every transition with a rule that uses the given
+   * token, either as an input token or as a stack symbol.
+   * @param token The token to look for.
+   * @returns A map from each transition using the token to its current
+   * list of rules.
    */
-  public static setTokenSymbol(token: TokenWrapper, newSymbol: string) {
-    if (this.debugActive) return;
-    let oldSymbol = token.symbol;
+  private static pdaRulesUsingToken(
+    token: TokenWrapper,
+  ): Map<TransitionWrapper, Array<PDARule>> {
+    const rulesUsingToken = new Map<TransitionWrapper, Array<PDARule>>();
+    StateManager._transitionWrappers.forEach((trans) => {
+      const usesToken = trans.pdaRules.some(
+        (rule) =>
+          rule.input === token ||
+          rule.pop === token ||
+          rule.push.includes(token),
+      );
+      if (usesToken) {
+        rulesUsingToken.set(trans, trans.pdaRules);
+      }
+    });
+    return rulesUsingToken;
+  }
 
-    let setTokenSymbolForward = (data: SetTokenSymbolActionData) => {
-      data.token.symbol = data.newSymbol;
-    };
+  /**
+   * Finds the Turing machine rules of every transition with a rule that
+   * reads or writes the given token.
+   * @param token The token to look for.
+   * @returns A map from each transition using the token to its current
+   * list of rules.
+   */
+  private static tmRulesUsingToken(
+    token: TokenWrapper,
+  ): Map<TransitionWrapper, Array<TMRule>> {
+    const rulesUsingToken = new Map<TransitionWrapper, Array<TMRule>>();
+    StateManager._transitionWrappers.forEach((trans) => {
+      const usesToken = trans.tmRules.some(
+        (rule) => rule.read === token || rule.write === token,
+      );
+      if (usesToken) {
+        rulesUsingToken.set(trans, trans.tmRules);
+      }
+    });
+    return rulesUsingToken;
+  }
 
-    let setTokenSymbolBackward = (data: SetTokenSymbolActionData) => {
-      data.token.symbol = data.oldSymbol;
+  /**
+   * Pushes an action to the action stack that adds a new stack symbol to the
+   * automaton's stack alphabet.
+   */
+  public static addStackSymbol() {
+    if (this.debugActive) return;
+    const newSymbol = new TokenWrapper();
+    const addStackSymbolForward = (data: AddTokenActionData) => {
+      StateManager._stackAlphabet.push(data.token);
+    };
+    const addStackSymbolBackward = (data: AddTokenActionData) => {
+      StateManager._stackAlphabet = StateManager._stackAlphabet.filter(
+        (i) => i !== data.token,
+      );
     };
 
-    let setTokenSymbolAction = new Action(
-      "setTokenSymbol",
-      `Rename Token "${oldSymbol}" To "${newSymbol}"`,
-      setTokenSymbolForward,
-      setTokenSymbolBackward,
-      { oldSymbol: oldSymbol, newSymbol: newSymbol, token: token },
+    const addStackSymbolAction = new Action(
+      "addStackSymbol",
+      "Add Stack Symbol",
+      addStackSymbolForward,
+      addStackSymbolBackward,
+      { token: newSymbol },
     );
-    UndoRedoManager.pushAction(setTokenSymbolAction);
+    UndoRedoManager.pushAction(addStackSymbolAction);
   }
 
   /**
-   * Pushes an action to the action stack that adds the given token as an
-   * accepted token by the given transition.
-   * @param transition The transition to add the token to.
-   * @param token The token to add to the transition.
+   * Pushes an action to the action stack that removes the given symbol from
+   * the automaton's stack alphabet. Any PDA rules that use the symbol are
+   * removed too.
+   * @param symbol The stack symbol to remove.
    */
-  public static setTransitionAcceptsToken(
-    transition: TransitionWrapper,
-    token: TokenWrapper,
-  ) {
+  public static removeStackSymbol(symbol: TokenWrapper) {
     if (this.debugActive) return;
-    let hadTokenBefore = transition.hasToken(token);
-    let setTransitionAcceptsTokenForward = (
-      data: SetTransitionAcceptsTokenData,
-    ) => {
-      data.transition.addToken(data.token);
+    const oldPDARules = StateManager.pdaRulesUsingToken(symbol);
+
+    const removeStackSymbolForward = (data: RemoveStackSymbolActionData) => {
+      StateManager._stackAlphabet = StateManager._stackAlphabet.filter(
+        (i) => i !== data.token,
+      );
+      data.oldPDARules.forEach((rules, trans) => {
+        trans.pdaRules = rules.filter(
+          (rule) => rule.pop !== data.token && !rule.push.includes(data.token),
+        );
+      });
     };
 
-    let setTransitionAcceptsTokenBackward = (
-      data: SetTransitionAcceptsTokenData,
-    ) => {
-      if (hadTokenBefore) {
-        data.transition.addToken(data.token);
-      } else {
-        data.transition.removeToken(data.token);
-      }
+    const removeStackSymbolBackward = (data: RemoveStackSymbolActionData) => {
+      StateManager._stackAlphabet.push(data.token);
+      data.oldPDARules.forEach((rules, trans) => {
+        trans.pdaRules = rules;
+      });
     };
 
-    let setTransitionAcceptsTokenAction = new Action(
-      "setTransitionAcceptsToken",
-      `Use Token "${token.symbol}" For Transition "${transition.sourceNode.labelText}" To "${transition.destNode.labelText}"`,
-      setTransitionAcceptsTokenForward,
-      setTransitionAcceptsTokenBackward,
-      { transition: transition, token: token },
+    const removeStackSymbolAction = new Action(
+      "removeStackSymbol",
+      `Remove Stack Symbol "${symbol.symbol}"`,
+      removeStackSymbolForward,
+      removeStackSymbolBackward,
+      { token: symbol, oldPDARules: oldPDARules },
     );
-    UndoRedoManager.pushAction(setTransitionAcceptsTokenAction);
+    UndoRedoManager.pushAction(removeStackSymbolAction);
   }
 
   /**
-   * Pushes an action to the action stack that removes the given token as an
-   * accepted token by the given transition.
-   * @param transition The transition to remove the token from.
-   * @param token The token to remove from the transition.
+   * Pushes an action to the action stack that replaces the PDA rules of the
+   * given transition.
+   * @param transition The transition to modify.
+   * @param newRules The new list of rules for the transition.
+   * @param displayString The text to show for this action in the action
+   * stack, describing how the rules changed.
    */
-  public static setTransitionDoesntAcceptToken(
+  public static setTransitionPDARules(
     transition: TransitionWrapper,
-    token: TokenWrapper,
+    newRules: Array<PDARule>,
+    displayString: string,
   ) {
     if (this.debugActive) return;
-    let hadTokenBefore = transition.hasToken(token);
-    let setTransitionDoesntAcceptTokenForward = (
-      data: SetTransitionAcceptsTokenData,
-    ) => {
-      data.transition.removeToken(data.token);
+
+    const setPDARulesForward = (data: SetTransitionPDARulesActionData) => {
+      data.transition.pdaRules = data.newRules;
     };
 
-    let setTransitionDoesntAcceptTokenBackward = (
-      data: SetTransitionAcceptsTokenData,
-    ) => {
-      if (hadTokenBefore) {
-        data.transition.addToken(data.token);
-      } else {
-        data.transition.removeToken(data.token);
-      }
+    const setPDARulesBackward = (data: SetTransitionPDARulesActionData) => {
+      data.transition.pdaRules = data.oldRules;
     };
 
-    let setTransitionDoesntAcceptTokenAction = new Action(
-      "setTransitionDoesntAcceptToken",
-      `Don't Use Token "${token.symbol}" For Transition "${transition.sourceNode.labelText}" To "${transition.destNode.labelText}"`,
-      setTransitionDoesntAcceptTokenForward,
-      setTransitionDoesntAcceptTokenBackward,
-      { transition: transition, token: token },
+    const setPDARulesAction = new Action(
+      "setTransitionPDARules",
+      displayString,
+      setPDARulesForward,
+      setPDARulesBackward,
+      {
+        transition: transition,
+        oldRules: transition.pdaRules,
+        newRules: newRules,
+      },
     );
-    UndoRedoManager.pushAction(setTransitionDoesntAcceptTokenAction);
+    UndoRedoManager.pushAction(setPDARulesAction);
   }
 
   /**
-   * Pushes an action to the action stack that makes the given transition
-   * accept the empty string.
-   * @param transition The transition to make accept the empty string.
+   * Pushes an action to the action stack that adds a new symbol to the
+   * automaton's tape alphabet.
    */
-  public static setTransitionAcceptsEpsilon(transition: TransitionWrapper) {
+  public static addTapeSymbol() {
     if (this.debugActive) return;
-    let hadEpsilonBefore = transition.isEpsilonTransition;
-
-    let setTransitionAcceptsEpsilonForward = (
-      data: SetTransitionAcceptsTokenData,
-    ) => {
-      data.transition.isEpsilonTransition = true;
+    const newSymbol = new TokenWrapper();
+    const addTapeSymbolForward = (data: AddTokenActionData) => {
+      StateManager._tapeAlphabet.push(data.token);
     };
-
-    let setTransitionAcceptsEpsilonBackward = (
-      data: SetTransitionAcceptsTokenData,
-    ) => {
-      data.transition.isEpsilonTransition = hadEpsilonBefore;
+    const addTapeSymbolBackward = (data: AddTokenActionData) => {
+      StateManager._tapeAlphabet = StateManager._tapeAlphabet.filter(
+        (i) => i !== data.token,
+      );
     };
-    let setTransitionAcceptsTokenAction = new Action(
-      "setTransitionAcceptsEpsilon",
-      `Use ε For Transition "${transition.sourceNode.labelText}" To "${transition.destNode.labelText}"`,
-      setTransitionAcceptsEpsilonForward,
-      setTransitionAcceptsEpsilonBackward,
-      { transition: transition, token: null },
+
+    const addTapeSymbolAction = new Action(
+      "addTapeSymbol",
+      "Add Tape Symbol",
+      addTapeSymbolForward,
+      addTapeSymbolBackward,
+      { token: newSymbol },
     );
-    UndoRedoManager.pushAction(setTransitionAcceptsTokenAction);
+    UndoRedoManager.pushAction(addTapeSymbolAction);
   }
 
   /**
-   * Pushes an action to the action stack that makes the given transition
-   * not accept the empty string.
-   * @param transition The transition to make not accept the empty string.
+   * Pushes an action to the action stack that removes the given symbol from
+   * the automaton's tape alphabet. Any Turing machine rules that read or
+   * write the symbol are removed too.
+   * @param symbol The tape symbol to remove.
    */
-  public static setTransitionDoesntAcceptEpsilon(
-    transition: TransitionWrapper,
-  ) {
+  public static removeTapeSymbol(symbol: TokenWrapper) {
     if (this.debugActive) return;
-    let hadEpsilonBefore = transition.isEpsilonTransition;
+    const oldTMRules = StateManager.tmRulesUsingToken(symbol);
 
-    let setTransitionDoesntAcceptEpsilonForward = (
-      data: SetTransitionAcceptsTokenData,
-    ) => {
-      data.transition.isEpsilonTransition = false;
+    const removeTapeSymbolForward = (data: RemoveTapeSymbolActionData) => {
+      StateManager._tapeAlphabet = StateManager._tapeAlphabet.filter(
+        (i) => i !== data.token,
+      );
+      data.oldTMRules.forEach((rules, trans) => {
+        trans.tmRules = rules.filter(
+          (rule) => rule.read !== data.token && rule.write !== data.token,
+        );
+      });
     };
 
-    let setTransitionDoesntAcceptEpsilonBackward = (
-      data: SetTransitionAcceptsTokenData,
-    ) => {
-      data.transition.isEpsilonTransition = hadEpsilonBefore;
+    const removeTapeSymbolBackward = (data: RemoveTapeSymbolActionData) => {
+      StateManager._tapeAlphabet.push(data.token);
+      data.oldTMRules.forEach((rules, trans) => {
+        trans.tmRules = rules;
+      });
     };
-    let setTransitionDoesntAcceptTokenAction = new Action(
-      "setTransitionDoesntAcceptEpsilon",
-      `Don't Use ε For Transition "${transition.sourceNode.labelText}" To "${transition.destNode.labelText}"`,
-      setTransitionDoesntAcceptEpsilonForward,
-      setTransitionDoesntAcceptEpsilonBackward,
-      { transition: transition, token: null },
+
+    const removeTapeSymbolAction = new Action(
+      "removeTapeSymbol",
+      `Remove Tape Symbol "${symbol.symbol}"`,
+      removeTapeSymbolForward,
+      removeTapeSymbolBackward,
+      { token: symbol, oldTMRules: oldTMRules },
     );
-    UndoRedoManager.pushAction(setTransitionDoesntAcceptTokenAction);
+    UndoRedoManager.pushAction(removeTapeSymbolAction);
   }
 
   /**
-   * Gets whether or not the user is currently attempting to create a
-   * transition (i.e., have they clicked and dragged on a node while using
-   * the Transition tool?)
+   * Pushes an action to the action stack that replaces the Turing machine
+   * rules of the given transition.
+   * @param transition The transition to modify.
+   * @param newRules The new list of rules for the transition.
+   * @param displayString The text to show for this action in the action
+   * stack, describing how the rules changed.
+   */
+  public static setTransitionTMRules(
+    transition: TransitionWrapper,
+    newRules: Array<TMRule>,
+    displayString: string,
+  ) {
+    if (this.debugActive) return;
+
+    const setTMRulesForward = (data: SetTransitionTMRulesActionData) => {
+      data.transition.tmRules = data.newRules;
+    };
+
+    const setTMRulesBackward = (data: SetTransitionTMRulesActionData) => {
+      data.transition.tmRules = data.oldRules;
+    };
+
+    const setTMRulesAction = new Action(
+      "setTransitionTMRules",
+      displayString,
+      setTMRulesForward,
+      setTMRulesBackward,
+      {
+        transition: transition,
+        oldRules: transition.tmRules,
+        newRules: newRules,
+      },
+    );
+    UndoRedoManager.pushAction(setTMRulesAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that adds a new symbol to the
+   * automaton's output alphabet.
+   */
+  public static addOutputSymbol() {
+    if (this.debugActive) return;
+    const newSymbol = new TokenWrapper();
+    const addOutputSymbolForward = (data: AddTokenActionData) => {
+      StateManager._outputAlphabet.push(data.token);
+    };
+    const addOutputSymbolBackward = (data: AddTokenActionData) => {
+      StateManager._outputAlphabet = StateManager._outputAlphabet.filter(
+        (i) => i !== data.token,
+      );
+    };
+
+    const addOutputSymbolAction = new Action(
+      "addOutputSymbol",
+      "Add Output Symbol",
+      addOutputSymbolForward,
+      addOutputSymbolBackward,
+      { token: newSymbol },
+    );
+    UndoRedoManager.pushAction(addOutputSymbolAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that removes the given symbol from
+   * the automaton's output alphabet. Any states and transitions that output
+   * the symbol stop outputting anything.
+   * @param symbol The output symbol to remove.
+   */
+  public static removeOutputSymbol(symbol: TokenWrapper) {
+    if (this.debugActive) return;
+    const nodesUsingSymbol = StateManager._nodeWrappers.filter(
+      (node) => node.output === symbol,
+    );
+    const transitionOutputsUsingSymbol: Array<
+      [TransitionWrapper, TokenWrapper]
+    > = [];
+    StateManager._transitionWrappers.forEach((trans) => {
+      StateManager._alphabet.forEach((tok) => {
+        if (trans.outputFor(tok) === symbol) {
+          transitionOutputsUsingSymbol.push([trans, tok]);
+        }
+      });
+    });
+
+    const removeOutputSymbolForward = (data: AddTokenActionData) => {
+      StateManager._outputAlphabet = StateManager._outputAlphabet.filter(
+        (i) => i !== data.token,
+      );
+      nodesUsingSymbol.forEach((node) => (node.output = null));
+      transitionOutputsUsingSymbol.forEach(([trans, tok]) =>
+        trans.setOutput(tok, null),
+      );
+    };
+
+    const removeOutputSymbolBackward = (data: AddTokenActionData) => {
+      StateManager._outputAlphabet.push(data.token);
+      nodesUsingSymbol.forEach((node) => (node.output = data.token));
+      transitionOutputsUsingSymbol.forEach(([trans, tok]) =>
+        trans.setOutput(tok, data.token),
+      );
+    };
+
+    const removeOutputSymbolAction = new Action(
+      "removeOutputSymbol",
+      `Remove Output Symbol "${symbol.symbol}"`,
+      removeOutputSymbolForward,
+      removeOutputSymbolBackward,
+      { token: symbol },
+    );
+    UndoRedoManager.pushAction(removeOutputSymbolAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that sets the symbol the given
+   * transition outputs for an input token in a Mealy machine.
+   * @param transition The transition to modify.
+   * @param token The input token to set the output for.
+   * @param output The symbol to output, or `null` to output nothing.
+   */
+  public static setTransitionOutput(
+    transition: TransitionWrapper,
+    token: TokenWrapper,
+    output: TokenWrapper | null,
+  ) {
+    if (this.debugActive) return;
+
+    const setTransitionOutputForward = (
+      data: SetTransitionOutputActionData,
+    ) => {
+      data.transition.setOutput(data.token, data.newOutput);
+    };
+
+    const setTransitionOutputBackward = (
+      data: SetTransitionOutputActionData,
+    ) => {
+      data.transition.setOutput(data.token, data.oldOutput);
+    };
+
+    const setTransitionOutputAction = new Action(
+      "setTransitionOutput",
+      output
+        ? `Output "${output.symbol}" on Token "${token.symbol}"`
+        : `Clear Output on Token "${token.symbol}"`,
+      setTransitionOutputForward,
+      setTransitionOutputBackward,
+      {
+        transition: transition,
+        token: token,
+        oldOutput: transition.outputFor(token),
+        newOutput: output,
+      },
+    );
+    UndoRedoManager.pushAction(setTransitionOutputAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that sets the most steps a Turing
+   * machine may take when testing a string.
+   * @param newLimit The new step limit. It is clamped between 1 and
+   * `MaxTMStepLimit`.
+   */
+  public static setTMStepLimit(newLimit: number) {
+    if (this.debugActive) return;
+    const limit = Math.min(Math.max(Math.floor(newLimit), 1), MaxTMStepLimit);
+    if (isNaN(limit) || limit === StateManager._tmStepLimit) return;
+
+    const setTMStepLimitForward = (data: SetTMStepLimitActionData) => {
+      StateManager._tmStepLimit = data.newLimit;
+    };
+
+    const setTMStepLimitBackward = (data: SetTMStepLimitActionData) => {
+      StateManager._tmStepLimit = data.oldLimit;
+    };
+
+    const setTMStepLimitAction = new Action(
+      "setTMStepLimit",
+      `Set Step Limit To ${limit}`,
+      setTMStepLimitForward,
+      setTMStepLimitBackward,
+      { oldLimit: StateManager._tmStepLimit, newLimit: limit },
+    );
+    UndoRedoManager.pushAction(setTMStepLimitAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that sets how the given transition
+   * picks its tokens.
+   * @param transition The transition to modify.
+   * @param selector The new token selector, or `null` to go back to the
+   * tokens listed one by one.
+   */
+  public static setTransitionTokenSelector(
+    transition: TransitionWrapper,
+    selector: TokenSelector | null,
+  ) {
+    if (this.debugActive) return;
+
+    const setTokenSelectorForward = (data: SetTokenSelectorActionData) => {
+      data.transition.tokenSelector = data.newSelector;
+    };
+
+    const setTokenSelectorBackward = (data: SetTokenSelectorActionData) => {
+      data.transition.tokenSelector = data.oldSelector;
+    };
+
+    const setTokenSelectorAction = new Action(
+      "setTransitionTokenSelector",
+      selector
+        ? `Accept "${tokenSelectorLabel(selector)}" on Transition`
+        : "Accept Listed Tokens on Transition",
+      setTokenSelectorForward,
+      setTokenSelectorBackward,
+      {
+        transition: transition,
+        oldSelector: transition.tokenSelector,
+        newSelector: selector,
+      },
+    );
+    UndoRedoManager.pushAction(setTokenSelectorAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that sets the text that separates
+   * tokens in test strings.
+   * @param newSeparator The new separator, or an empty string to split test
+   * strings by longest match against the alphabet.
+   */
+  public static setTokenSeparator(newSeparator: string) {
+    if (this.debugActive) return;
+    if (newSeparator === StateManager._tokenSeparator) return;
+
+    const setTokenSeparatorForward = (data: SetTokenSeparatorActionData) => {
+      StateManager._tokenSeparator = data.newSeparator;
+    };
+
+    const setTokenSeparatorBackward = (data: SetTokenSeparatorActionData) => {
+      StateManager._tokenSeparator = data.oldSeparator;
+    };
+
+    const setTokenSeparatorAction = new Action(
+      "setTokenSeparator",
+      newSeparator === ""
+        ? "Split Test Strings By Longest Match"
+        : `Set Token Separator To "${newSeparator}"`,
+      setTokenSeparatorForward,
+      setTokenSeparatorBackward,
+      {
+        oldSeparator: StateManager._tokenSeparator,
+        newSeparator: newSeparator,
+      },
+    );
+    UndoRedoManager.pushAction(setTokenSeparatorAction);
+  }
+
+  /**
+   * Splits a test string into the symbols of the automaton's tokens, using
+   * the token separator if there is one, or longest match otherwise.
+   * @param input The test string to split.
+   * @returns {TokenizeResult} The outcome of the split, along with the
+   * symbols of the tokens.
+   */
+  public static tokenize(input: string): TokenizeResult {
+    return tokenizeInput(
+      input,
+      StateManager._alphabet.map((tok) => tok.symbol),
+      StateManager._tokenSeparator,
+    );
+  }
+
+  /**
+   * Pushes an action to the action stack that sets how the automaton accepts
+   * strings when it is a PDA.
+   * @param newMode The new acceptance mode.
+   */
+  public static setPDAAcceptance(newMode: PDAAcceptanceMode) {
+    if (this.debugActive) return;
+
+    const setPDAAcceptanceForward = (data: SetPDAAcceptanceActionData) => {
+      StateManager._pdaAcceptance = data.newMode;
+    };
+
+    const setPDAAcceptanceBackward = (data: SetPDAAcceptanceActionData) => {
+      StateManager._pdaAcceptance = data.oldMode;
+    };
+
+    const setPDAAcceptanceAction = new Action(
+      "setPDAAcceptance",
+      newMode === PDAAcceptanceMode.EmptyStack
+        ? "Accept PDA Strings By Empty Stack"
+        : "Accept PDA Strings By Final State",
+      setPDAAcceptanceForward,
+      setPDAAcceptanceBackward,
+      { oldMode: StateManager._pdaAcceptance, newMode: newMode },
+    );
+    UndoRedoManager.pushAction(setPDAAcceptanceAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that sets the given token's symbol
+   * to the provided symbol.
+   * @param token The token to set the symbol/label of.
+   * @param newSymbol The new symbol/label for the token.
+   */
+  public static setTokenSymbol(token: TokenWrapper, newSymbol: string) {
+    if (this.debugActive) return;
+    let oldSymbol = token.symbol;
+
+    let setTokenSymbolForward = (data: SetTokenSymbolActionData) => {
+      data.token.symbol = data.newSymbol;
+    };
+
+    let setTokenSymbolBackward = (data: SetTokenSymbolActionData) => {
+      data.token.symbol = data.oldSymbol;
+    };
+
+    let setTokenSymbolAction = new Action(
+      "setTokenSymbol",
+      `Rename Token "${oldSymbol}" To "${newSymbol}"`,
+      setTokenSymbolForward,
+      setTokenSymbolBackward,
+      { oldSymbol: oldSymbol, newSymbol: newSymbol, token: token },
+    );
+    UndoRedoManager.pushAction(setTokenSymbolAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that adds the given token as an
+   * accepted token by the given transition.
+   * @param transition The transition to add the token to.
+   * @param token The token to add to the transition.
+   */
+  public static setTransitionAcceptsToken(
+    transition: TransitionWrapper,
+    token: TokenWrapper,
+  ) {
+    if (this.debugActive) return;
+    let hadTokenBefore = transition.hasToken(token);
+    let setTransitionAcceptsTokenForward = (
+      data: SetTransitionAcceptsTokenData,
+    ) => {
+      data.transition.addToken(data.token);
+    };
+
+    let setTransitionAcceptsTokenBackward = (
+      data: SetTransitionAcceptsTokenData,
+    ) => {
+      if (hadTokenBefore) {
+        data.transition.addToken(data.token);
+      } else {
+        data.transition.removeToken(data.token);
+      }
+    };
+
+    let setTransitionAcceptsTokenAction = new Action(
+      "setTransitionAcceptsToken",
+      `Use Token "${token.symbol}" For Transition "${transition.sourceNode.labelText}" To "${transition.destNode.labelText}"`,
+      setTransitionAcceptsTokenForward,
+      setTransitionAcceptsTokenBackward,
+      { transition: transition, token: token },
+    );
+    UndoRedoManager.pushAction(setTransitionAcceptsTokenAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that removes the given token as an
+   * accepted token by the given transition.
+   * @param transition The transition to remove the token from.
+   * @param token The token to remove from the transition.
+   */
+  public static setTransitionDoesntAcceptToken(
+    transition: TransitionWrapper,
+    token: TokenWrapper,
+  ) {
+    if (this.debugActive) return;
+    let hadTokenBefore = transition.hasToken(token);
+    let setTransitionDoesntAcceptTokenForward = (
+      data: SetTransitionAcceptsTokenData,
+    ) => {
+      data.transition.removeToken(data.token);
+    };
+
+    let setTransitionDoesntAcceptTokenBackward = (
+      data: SetTransitionAcceptsTokenData,
+    ) => {
+      if (hadTokenBefore) {
+        data.transition.addToken(data.token);
+      } else {
+        data.transition.removeToken(data.token);
+      }
+    };
+
+    let setTransitionDoesntAcceptTokenAction = new Action(
+      "setTransitionDoesntAcceptToken",
+      `Don't Use Token "${token.symbol}" For Transition "${transition.sourceNode.labelText}" To "${transition.destNode.labelText}"`,
+      setTransitionDoesntAcceptTokenForward,
+      setTransitionDoesntAcceptTokenBackward,
+      { transition: transition, token: token },
+    );
+    UndoRedoManager.pushAction(setTransitionDoesntAcceptTokenAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that makes the given transition
+   * accept the empty string.
+   * @param transition The transition to make accept the empty string.
+   */
+  public static setTransitionAcceptsEpsilon(transition: TransitionWrapper) {
+    if (this.debugActive) return;
+    let hadEpsilonBefore = transition.isEpsilonTransition;
+
+    let setTransitionAcceptsEpsilonForward = (
+      data: SetTransitionAcceptsTokenData,
+    ) => {
+      data.transition.isEpsilonTransition = true;
+    };
+
+    let setTransitionAcceptsEpsilonBackward = (
+      data: SetTransitionAcceptsTokenData,
+    ) => {
+      data.transition.isEpsilonTransition = hadEpsilonBefore;
+    };
+    let setTransitionAcceptsTokenAction = new Action(
+      "setTransitionAcceptsEpsilon",
+      `Use ε For Transition "${transition.sourceNode.labelText}" To "${transition.destNode.labelText}"`,
+      setTransitionAcceptsEpsilonForward,
+      setTransitionAcceptsEpsilonBackward,
+      { transition: transition, token: null },
+    );
+    UndoRedoManager.pushAction(setTransitionAcceptsTokenAction);
+  }
+
+  /**
+   * Pushes an action to the action stack that makes the given transition
+   * not accept the empty string.
+   * @param transition The transition to make not accept the empty string.
+   */
+  public static setTransitionDoesntAcceptEpsilon(
+    transition: TransitionWrapper,
+  ) {
+    if (this.debugActive) return;
+    let hadEpsilonBefore = transition.isEpsilonTransition;
+
+    let setTransitionDoesntAcceptEpsilonForward = (
+      data: SetTransitionAcceptsTokenData,
+    ) => {
+      data.transition.isEpsilonTransition = false;
+    };
+
+    let setTransitionDoesntAcceptEpsilonBackward = (
+      data: SetTransitionAcceptsTokenData,
+    ) => {
+      data.transition.isEpsilonTransition = hadEpsilonBefore;
+    };
+    let setTransitionDoesntAcceptTokenAction = new Action(
+      "setTransitionDoesntAcceptEpsilon",
+      `Don't Use ε For Transition "${transition.sourceNode.labelText}" To "${transition.destNode.labelText}"`,
+      setTransitionDoesntAcceptEpsilonForward,
+      setTransitionDoesntAcceptEpsilonBackward,
+      { transition: transition, token: null },
+    );
+    UndoRedoManager.pushAction(setTransitionDoesntAcceptTokenAction);
+  }
+
+  /**
+   * Gets whether or not the user is currently attempting to create a
+   * transition (i.e., have they clicked and dragged on a node while using
+   * the Transition tool?)
    */
   public static get tentativeTransitionInProgress() {
     return StateManager._tentativeTransitionSource !== null;
@@ -1560,7 +2359,6 @@ export default class StateManager {
     const selectedNodes = this._selectedObjects.filter(
       (obj) => obj instanceof NodeWrapper,
     ) as NodeWrapper[];
-    const prevStartNode = StateManager.startNode;
 
     // Find transitions between selected nodes
     const transitionsInvolvingSelectedNodes = this._transitionWrappers.filter(
@@ -1591,6 +2389,31 @@ export default class StateManager {
     let totalObjects = removeData.nodes.length + removeData.transitions.length;
     let actionDescription = `Delete ${totalObjects} Object${totalObjects !== 1 ? "s" : ""}`;
 
+    StateManager.pushRemoveObjectsAction(
+      "deleteObjects",
+      actionDescription,
+      removeData,
+    );
+
+    StateManager.deselectAllObjects();
+  }
+
+  /**
+   * Pushes an action to the action stack that removes the given nodes and
+   * transitions from the automaton.
+   * @param name The name of the action.
+   * @param displayString The text to show for this action in the action
+   * stack.
+   * @param removeData The nodes and transitions to remove. Every transition
+   * to or from a removed node must be included.
+   */
+  private static pushRemoveObjectsAction(
+    name: string,
+    displayString: string,
+    removeData: RemoveNodeActionDataMulti,
+  ) {
+    const prevStartNode = StateManager.startNode;
+
     let performRemoveForward = (data: RemoveNodeActionDataMulti) => {
       // Remove transitions
       data.transitions.forEach((transition) => {
@@ -1683,16 +2506,14 @@ export default class StateManager {
     };
 
     let removeAction = new Action(
-      "deleteObjects",
-      actionDescription,
+      name,
+      displayString,
       performRemoveForward,
       performRemoveBackward,
       removeData,
     );
 
     UndoRedoManager.pushAction(removeAction);
-
-    StateManager.deselectAllObjects();
   }
 
   /**
@@ -1863,89 +2684,202 @@ export default class StateManager {
     StateManager._nodeWrappers.forEach((n) => StateManager.selectObject(n));
     StateManager.deleteAllSelectedObjects();
     StateManager._alphabet.forEach((t) => StateManager.removeToken(t));
+    StateManager._automatonType = AutomatonType.DFA;
+    StateManager._stackAlphabet = [];
+    StateManager._pdaAcceptance = PDAAcceptanceMode.FinalState;
+    StateManager._tapeAlphabet = [];
+    StateManager._tmStepLimit = DefaultTMStepLimit;
+    StateManager._tokenSeparator = "";
+    StateManager._outputAlphabet = [];
     StateManager._nextStateId = 0;
+    // The tests belong to the automaton, so they go with it
+    StateManager._tests = [];
+    StateManager.setTestResults({});
+    StateManager.notifyTestsListeners();
     UndoRedoManager.reset();
   }
-  static async waitForLeftOrRightKey(): Promise<number> {
-    return new Promise((resolve) => {
-      function keyHandler(event: KeyboardEvent) {
-        if (event.code === "ArrowLeft") {
-          resolve(StateManager.debugOptions.Left);
-          cleanup();
-        } else if (event.code === "ArrowRight") {
-          resolve(StateManager.debugOptions.Right);
-          cleanup();
-        } else if (event.code === "Enter") {
-          resolve(StateManager.debugOptions.KillDebug);
-          cleanup();
-        } else {
-          resolve(StateManager.debugOptions.Other);
-          cleanup();
-        }
-      }
+  /**
+   * Starts playing back a run in the simulation player, showing its first
+   * step. Any run already being played back is stopped first.
+   * @param simulation The run to play back. Nothing is played back if it has
+   * no steps.
+   * @param onStep A function to call with the index of the step being shown
+   * whenever it changes, and with `null` once the simulation stops. Used to
+   * show extra information about each step, such as a Turing machine's tape.
+   */
+  public static startSimulation(
+    simulation: Simulation,
+    onStep?: (step: number | null) => void,
+  ) {
+    StateManager.stopSimulation();
+    if (simulation.steps.length === 0) return;
 
-      function buttonHandler() {
-        resolve(StateManager.debugOptions.KillDebug);
-        cleanup();
-      }
+    StateManager.deselectAllObjects();
+    StateManager._simulation = simulation;
+    StateManager._onSimulationStep = onStep ?? null;
+    StateManager.setSimulationStep(0);
+  }
 
-      function debugChangeHandler() {
-        resolve(StateManager.debugOptions.KillDebug);
-        cleanup();
-      }
+  /**
+   * Shows the given step of the run being played back, highlighting the
+   * states the machine is in and the transitions it just followed.
+   * @param step The index of the step to show. It is clamped to the steps
+   * of the run.
+   */
+  public static setSimulationStep(step: number) {
+    const simulation = StateManager._simulation;
+    if (simulation === null) return;
 
-      function cleanup() {
-        window.removeEventListener("keydown", keyHandler);
-        StateManager.unsubscribe(debugChangeHandler);
-        if (testMachineButton) {
-          testMachineButton.removeEventListener("click", buttonHandler);
-        }
-      }
+    StateManager._simulationStep = Math.min(
+      Math.max(step, 0),
+      simulation.steps.length - 1,
+    );
+    StateManager.highlightSimulationStep(
+      simulation.steps[StateManager._simulationStep],
+    );
+    StateManager._onSimulationStep?.(StateManager._simulationStep);
+    StateManager.notifySimulationListeners();
+  }
 
-      const testMachineButton = document.getElementById("testMachineButton");
+  /** Stops playing back the current run, if there is one. */
+  public static stopSimulation() {
+    if (StateManager._simulation === null) return;
 
-      if (testMachineButton) {
-        testMachineButton.addEventListener("click", buttonHandler);
-      }
+    StateManager.highlightSimulationStep(null);
+    StateManager._onSimulationStep?.(null);
+    StateManager._simulation = null;
+    StateManager._onSimulationStep = null;
+    StateManager._simulationStep = 0;
+    StateManager.notifySimulationListeners();
+  }
 
-      window.addEventListener("keydown", keyHandler);
-      StateManager.subscribe(debugChangeHandler); // Listen for debug mode changes
+  /**
+   * Highlights the states and transitions of a simulation step, clearing the
+   * highlight from everything else. States where a branch of the run just
+   * ended are faded out.
+   * @param step The step to highlight, or `null` to clear every highlight.
+   */
+  private static highlightSimulationStep(step: SimulationStep | null) {
+    StateManager._nodeWrappers.forEach((node) => {
+      node.setSimulationActiveState(step?.states.includes(node.id) ?? false);
+      node.setSimulationDeadState(step?.deadStates?.includes(node.id) ?? false);
     });
+    StateManager._transitionWrappers.forEach((trans) =>
+      trans.setSimulationActiveState(
+        step?.transitions.includes(trans.id) ?? false,
+      ),
+    );
   }
 
-  public static delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private static notifySimulationListeners() {
+    Array.from(StateManager.simulationListeners).forEach((listener) =>
+      listener(),
+    );
   }
-  public static async debugMachine(path: any[]) {
-    let LegalMoveFlag = 1;
-    StateManager.deselectAllObjects();
-    let pos = 0;
 
-    while (1 == 1) {
-      if (pos >= path.length) {
-        pos = path.length - 1;
-        LegalMoveFlag = 0;
-      }
-      if (pos < 0) {
-        pos = 0;
-        LegalMoveFlag = 0;
-      }
-      for (const n of StateManager._nodeWrappers) {
-        if (n.labelText === path[pos] && LegalMoveFlag == 1) {
-          StateManager.deselectAllObjects();
-          await StateManager.delay(100);
-          StateManager.selectObject(n);
-        }
-      }
-      let moveVal = await StateManager.waitForLeftOrRightKey();
-      LegalMoveFlag = 1;
-      if (moveVal == StateManager.debugOptions.KillDebug) {
-        StateManager.deselectAllObjects();
-        break;
-      } else {
-        pos += moveVal;
-      }
-    }
+  /**
+   * Gets the run being played back by the simulation player, or `null` if no
+   * run is being played back.
+   */
+  public static get simulation(): Simulation | null {
+    return StateManager._simulation;
+  }
+
+  /** Gets the index of the step of the simulation being shown. */
+  public static get simulationStep(): number {
+    return StateManager._simulationStep;
+  }
+
+  /**
+   * Starts calling the given function whenever the simulation or its step
+   * changes.
+   */
+  public static subscribeToSimulation(listener: () => void) {
+    StateManager.simulationListeners.add(listener);
+  }
+
+  /** Stops calling the given function when the simulation changes. */
+  public static unsubscribeFromSimulation(listener: () => void) {
+    StateManager.simulationListeners.delete(listener);
+  }
+
+  /** Gets a copy of the tests shown in the Tests panel. */
+  public static get tests(): Array<TestCase> {
+    return [...StateManager._tests];
+  }
+
+  /**
+   * Replaces the tests shown in the Tests panel. This isn't undoable, since
+   * the tests aren't part of the automaton itself, but it does mark the file
+   * as having unsaved changes, since the tests are saved with it.
+   * @param tests The new tests, in order.
+   */
+  public static setTests(tests: Array<TestCase>) {
+    StateManager._tests = [...tests];
+    StateManager.makeDirty();
+    StateManager.notifyTestsListeners();
+  }
+
+  /**
+   * Gets whether every test is run again each time the automaton changes.
+   */
+  public static get autoRunTests(): boolean {
+    return StateManager._autoRunTests;
+  }
+
+  /**
+   * Sets whether every test is run again each time the automaton changes.
+   * @param autoRun Whether to run the tests automatically.
+   */
+  public static setAutoRunTests(autoRun: boolean) {
+    StateManager._autoRunTests = autoRun;
+    StateManager.notifyTestsListeners();
+  }
+
+  private static notifyTestsListeners() {
+    Array.from(StateManager.testsListeners).forEach((listener) => listener());
+  }
+
+  /**
+   * Starts calling the given function whenever the tests change, or whether
+   * they are run automatically changes.
+   */
+  public static subscribeToTests(listener: () => void) {
+    StateManager.testsListeners.add(listener);
+  }
+
+  /** Stops calling the given function when the tests change. */
+  public static unsubscribeFromTests(listener: () => void) {
+    StateManager.testsListeners.delete(listener);
+  }
+
+  /**
+   * Gets whether each test passed when it was last run, by the test's ID.
+   * Tests that haven't been run since they last changed are left out.
+   */
+  public static get testResults(): Record<string, boolean> {
+    return { ...StateManager._testResults };
+  }
+
+  /**
+   * Replaces the results of the tests.
+   * @param results Whether each test passed, by the test's ID.
+   */
+  public static setTestResults(results: Record<string, boolean>) {
+    StateManager._testResults = { ...results };
+    Array.from(StateManager.testResultsListeners).forEach((listener) =>
+      listener(),
+    );
+  }
+
+  /** Starts calling the given function whenever the test results change. */
+  public static subscribeToTestResults(listener: () => void) {
+    StateManager.testResultsListeners.add(listener);
+  }
+
+  /** Stops calling the given function when the test results change. */
+  public static unsubscribeFromTestResults(listener: () => void) {
+    StateManager.testResultsListeners.delete(listener);
   }
 
   /**
@@ -1984,6 +2918,83 @@ export default class StateManager {
     return uniqueSymbols.size === tokenSymbols.length;
   }
 
+  /**
+   * Finds every node that can be reached by following transitions (in the
+   * given direction) from the given nodes. Transitions that can never be
+   * followed (see `TransitionWrapper.isEmpty`) are ignored.
+   * @param from The nodes to start from. They are included in the result.
+   * @param backward Whether to follow transitions backwards, from their
+   * destination to their source.
+   * @returns The set of nodes found.
+   */
+  private static connectedNodes(
+    from: Array<NodeWrapper>,
+    backward: boolean,
+  ): Set<NodeWrapper> {
+    const found = new Set(from);
+    const toVisit = [...from];
+    while (toVisit.length > 0) {
+      const current = toVisit.pop();
+      StateManager._transitionWrappers.forEach((trans) => {
+        if (trans.isEmpty) {
+          return;
+        }
+        const [near, far] = backward
+          ? [trans.destNode, trans.sourceNode]
+          : [trans.sourceNode, trans.destNode];
+        if (near === current && !found.has(far)) {
+          found.add(far);
+          toVisit.push(far);
+        }
+      });
+    }
+    return found;
+  }
+
+  /**
+   * The nodes that can't be reached from the start node by following
+   * transitions. Empty if there is no start node.
+   */
+  public static get unreachableNodes(): Array<NodeWrapper> {
+    if (StateManager._startNode === null) {
+      return [];
+    }
+    const reachable = StateManager.connectedNodes(
+      [StateManager._startNode],
+      false,
+    );
+    return StateManager._nodeWrappers.filter((node) => !reachable.has(node));
+  }
+
+  /**
+   * The nodes that can never lead to an accept node, so any input that
+   * reaches them is always rejected. Trap states (see `isTrapState`) are left
+   * out, since they are meant to reject. Empty for a PDA that accepts by
+   * empty stack and for Mealy and Moore machines.
+   */
+  public static get deadNodes(): Array<NodeWrapper> {
+    // Accept states don't matter to a PDA that accepts by empty stack, or
+    // to a Mealy or Moore machine
+    if (
+      (StateManager._automatonType === AutomatonType.PDA &&
+        StateManager._pdaAcceptance === PDAAcceptanceMode.EmptyStack) ||
+      isTransducerType(StateManager._automatonType)
+    ) {
+      return [];
+    }
+
+    const canAccept = StateManager.connectedNodes(
+      StateManager._nodeWrappers.filter((node) => node.isAcceptNode),
+      true,
+    );
+    // Trap states can't reach an accept state by design, so they aren't
+    // worth warning about
+    const automaton = StateManager.toSerializable();
+    return StateManager._nodeWrappers.filter(
+      (node) => !canAccept.has(node) && !isTrapState(automaton, node.id),
+    );
+  }
+
   /** Sets the array of tokens for the automaton. */
   public static set alphabet(newAlphabet: Array<TokenWrapper>) {
     StateManager._alphabet = newAlphabet;
@@ -1998,52 +3009,135 @@ export default class StateManager {
     return [...StateManager._alphabet];
   }
 
-  /** Gets a runnable DFA object from the current automaton. */
-  public static get dfa(): DFA {
-    let outputDFA = new DFA();
-    const stateManagerData = StateManager.toSerializable();
-    outputDFA.inputAlphabet = stateManagerData.alphabet.map((s) => s.symbol);
-    outputDFA.states = stateManagerData.states.map(
-      (s) => new DFAState(s.label),
-    );
-    outputDFA.acceptStates = stateManagerData.acceptStates.map((s) => {
-      const label = convertIDtoLabelOrSymbol(s, stateManagerData);
-      return outputDFA.states.find((state) => state.label === label);
-    });
+  /** Gets the kind of automaton being built (DFA, NFA, etc). */
+  public static get automatonType(): AutomatonType {
+    return StateManager._automatonType;
+  }
 
-    outputDFA.startState = outputDFA.states.find(
-      (s) =>
-        s.label ===
-        convertIDtoLabelOrSymbol(stateManagerData.startState, stateManagerData),
-    );
+  /**
+   * Gets a copy of the array of stack symbols, used when the automaton is a
+   * PDA. As with `StateManager.alphabet`, modifying the array won't change
+   * the automaton, but modifying the `TokenWrapper` objects inside it will.
+   */
+  public static get stackAlphabet() {
+    return [...StateManager._stackAlphabet];
+  }
 
-    outputDFA.transitions = stateManagerData.transitions.flatMap((t) =>
-      t.tokens.map((tokenID) => {
-        const sourceLabel = convertIDtoLabelOrSymbol(
-          t.source,
-          stateManagerData,
-        );
-        const tokenSymbol = convertIDtoLabelOrSymbol(tokenID, stateManagerData);
-        const destLabel = convertIDtoLabelOrSymbol(t.dest, stateManagerData);
+  /** Gets how the automaton accepts strings when it is a PDA. */
+  public static get pdaAcceptance(): PDAAcceptanceMode {
+    return StateManager._pdaAcceptance;
+  }
 
-        return new DFATransition(
-          outputDFA.states.find((s) => s.label === sourceLabel),
-          tokenSymbol,
-          outputDFA.states.find((s) => s.label === destLabel),
-        );
-      }),
+  /**
+   * Gets a copy of the array of tape symbols that aren't in the input
+   * alphabet, used when the automaton is a Turing machine. As with
+   * `StateManager.alphabet`, modifying the array won't change the automaton,
+   * but modifying the `TokenWrapper` objects inside it will.
+   */
+  public static get tapeAlphabet() {
+    return [...StateManager._tapeAlphabet];
+  }
+
+  /** Gets the most steps a Turing machine may take when testing a string. */
+  public static get tmStepLimit(): number {
+    return StateManager._tmStepLimit;
+  }
+
+  /**
+   * Gets the text that separates tokens in test strings. An empty string
+   * means test strings are split by longest match against the alphabet.
+   */
+  public static get tokenSeparator(): string {
+    return StateManager._tokenSeparator;
+  }
+
+  /**
+   * Gets a copy of the array of output symbols, used when the automaton is a
+   * Mealy or Moore machine. As with `StateManager.alphabet`, modifying the
+   * array won't change the automaton, but modifying the `TokenWrapper`
+   * objects inside it will.
+   */
+  public static get outputAlphabet() {
+    return [...StateManager._outputAlphabet];
+  }
+
+  /**
+   * Gets the Turing machine configuration being shown on the tape strip, or
+   * `null` if no tape is being shown.
+   */
+  public static get tapeConfiguration(): TMConfiguration | null {
+    return StateManager._tapeConfiguration;
+  }
+
+  /**
+   * Sets the Turing machine configuration to show on the tape strip, and
+   * notifies anything listening for tape changes.
+   * @param configuration The configuration to show, or `null` to hide the
+   * tape strip.
+   */
+  public static setTapeConfiguration(configuration: TMConfiguration | null) {
+    StateManager._tapeConfiguration = configuration;
+    Array.from(StateManager.tapeListeners).forEach((listener) => listener());
+  }
+
+  /** Starts calling the given function whenever the tape being shown changes. */
+  public static subscribeToTape(listener: () => void) {
+    StateManager.tapeListeners.add(listener);
+  }
+
+  /** Stops calling the given function when the tape being shown changes. */
+  public static unsubscribeFromTape(listener: () => void) {
+    StateManager.tapeListeners.delete(listener);
+  }
+
+  /**
+   * Pushes an action to the action stack that changes the kind of automaton
+   * being built. This changes how the automaton is evaluated and which
+   * errors are reported for it.
+   * @param newType The new type for the automaton.
+   */
+  public static setAutomatonType(newType: AutomatonType) {
+    if (this.debugActive) return;
+    const oldType = StateManager._automatonType;
+
+    // Node and transition labels depend on the type, so they are redrawn
+    // each time
+    const setAutomatonTypeForward = (data: SetAutomatonTypeActionData) => {
+      StateManager._automatonType = data.newType;
+      StateManager._nodeWrappers.forEach((node) => node.resetLabel());
+      StateManager.updateTransitions();
+    };
+
+    const setAutomatonTypeBackward = (data: SetAutomatonTypeActionData) => {
+      StateManager._automatonType = data.oldType;
+      StateManager._nodeWrappers.forEach((node) => node.resetLabel());
+      StateManager.updateTransitions();
+    };
+
+    const setAutomatonTypeAction = new Action(
+      "setAutomatonType",
+      `Change Automaton Type To ${newType.toUpperCase()}`,
+      setAutomatonTypeForward,
+      setAutomatonTypeBackward,
+      { oldType: oldType, newType: newType },
     );
+    UndoRedoManager.pushAction(setAutomatonTypeAction);
+  }
 
-    return outputDFA;
+  /** Gets a runnable DFA object from the current automaton. */
+  public static get dfa(): DFA {
+    return toAutomatonKitDFA(StateManager.toSerializable());
   }
 
   /**
    * Converts the current automaton into an object that can be
-   * serialized.
+   * serialized. The tokens of transitions with token selectors are filled
+   * in, so they can be run like any other transition. The tests from the
+   * Tests panel are included too, if there are any.
    * @returns {SerializableAutomaton} A serializable automaton object.
    */
   public static toSerializable(): SerializableAutomaton {
-    return {
+    const automaton = expandTokenSelectors({
       states: StateManager._nodeWrappers.map((node) => node.toSerializable()),
       alphabet: StateManager._alphabet.map((tok) => tok.toSerializable()),
       transitions: StateManager._transitionWrappers.map((trans) =>
@@ -2054,6 +3148,63 @@ export default class StateManager {
       acceptStates: StateManager._nodeWrappers
         .filter((node) => node.isAcceptNode)
         .map((node) => node.id),
+      type: StateManager._automatonType,
+      // PDA rules are kept when switching to another type, so the stack
+      // alphabet they use is saved too, or the file couldn't be loaded again
+      ...((StateManager._automatonType === AutomatonType.PDA ||
+        StateManager._stackAlphabet.length > 0) && {
+        stackAlphabet: StateManager._stackAlphabet.map((tok) =>
+          tok.toSerializable(),
+        ),
+      }),
+      ...(StateManager._automatonType === AutomatonType.PDA && {
+        pdaAcceptance: StateManager._pdaAcceptance,
+      }),
+      ...(StateManager._automatonType === AutomatonType.TM && {
+        rejectStates: StateManager._nodeWrappers
+          .filter((node) => node.isRejectNode)
+          .map((node) => node.id),
+        tmStepLimit: StateManager._tmStepLimit,
+      }),
+      // Likewise for Turing machine rules and the tape alphabet they use
+      ...((StateManager._automatonType === AutomatonType.TM ||
+        StateManager._tapeAlphabet.length > 0) && {
+        tapeAlphabet: StateManager._tapeAlphabet.map((tok) =>
+          tok.toSerializable(),
+        ),
+      }),
+      ...(StateManager._tokenSeparator !== "" && {
+        tokenSeparator: StateManager._tokenSeparator,
+      }),
+      // And for the outputs of Moore and Mealy machines
+      ...((isTransducerType(StateManager._automatonType) ||
+        StateManager._outputAlphabet.length > 0) && {
+        outputAlphabet: StateManager._outputAlphabet.map((tok) =>
+          tok.toSerializable(),
+        ),
+      }),
+      ...(StateManager._tests.length > 0 && {
+        tests: StateManager._tests.map((test) => ({
+          string: test.string,
+          expectedAccept: test.expectedAccept,
+        })),
+      }),
+    });
+
+    // A token selector can stop picking a token that its transition has an
+    // output for, and such outputs aren't saved
+    return {
+      ...automaton,
+      transitions: automaton.transitions.map((trans) =>
+        trans.tokenSelector && trans.outputs
+          ? {
+              ...trans,
+              outputs: trans.outputs.filter((out) =>
+                trans.tokens.includes(out.token),
+              ),
+            }
+          : trans,
+      ),
     };
   }
 
@@ -2099,24 +3250,69 @@ export default class StateManager {
       },
     );
 
-    return fileText;
+    return fileText;
+  }
+
+  /**
+   * Loads the data from a deserialized JSON automaton representation
+   * into the program. Its tests replace the tests in the Tests panel; files
+   * without tests (including those saved before tests were stored) leave the
+   * Tests panel empty.
+   * @param json The deserialized JSON object to load.
+   */
+  public static loadAutomaton(json: SerializableAutomaton) {
+    StateManager.clearMachine();
+
+    StateManager.addAutomatonContents(json);
+    StateManager.setTests((json.tests ?? []).map(toTestCase));
+    StateManager.makeClean();
+
+    // Refresh canvas?
+
+    this._stage.draw();
   }
 
   /**
-   * Loads the data from a deserialized JSON automaton representation
-   * into the program.
+   * Creates the nodes, tokens and transitions described by a deserialized
+   * JSON automaton representation, and adds them to the program.
+   *
+   * **NOTE:** This method is *not* undo/redo safe, and expects the current
+   * automaton to be empty. In most cases, you should instead use
+   * `StateManager.loadAutomaton` or `StateManager.replaceAutomaton`.
    * @param json The deserialized JSON object to load.
+   * @param existingTokens Tokens to reuse, rather than creating new ones,
+   * when a token in `json` has the same ID.
    */
-  public static loadAutomaton(json: SerializableAutomaton) {
-    const { states, alphabet, transitions, startState, acceptStates } = json;
-
-    StateManager.clearMachine();
-    StateManager.makeClean();
+  private static addAutomatonContents(
+    json: SerializableAutomaton,
+    existingTokens: Array<TokenWrapper> = [],
+  ) {
+    const { states, alphabet, transitions, startState, acceptStates, type } =
+      json;
+
+    // Files saved before automaton types were stored are always DFAs
+    StateManager._automatonType = type ?? AutomatonType.DFA;
+    StateManager._pdaAcceptance =
+      json.pdaAcceptance ?? PDAAcceptanceMode.FinalState;
+    StateManager._tmStepLimit = json.tmStepLimit ?? DefaultTMStepLimit;
+    StateManager._tokenSeparator = json.tokenSeparator ?? "";
+
+    // Load the output alphabet first, since states and transitions refer to
+    // it
+    (json.outputAlphabet ?? []).forEach((tok) => {
+      const newTok =
+        existingTokens.find((existing) => existing.id === tok.id) ??
+        new TokenWrapper(tok.symbol, tok.id);
+      StateManager._outputAlphabet.push(newTok);
+    });
+    const outputSymbolWithID = (id: string) =>
+      StateManager._outputAlphabet.find((tok) => tok.id === id) ?? null;
 
     // Load each state
     states.forEach((state) => {
       const newState = new NodeWrapper(state.label, state.id);
       newState.createKonvaObjects(state.x, state.y);
+      newState.output = outputSymbolWithID(state.output);
       StateManager._nodeWrappers.push(newState);
       StateManager._nodeLayer.add(newState.nodeGroup);
     });
@@ -2128,26 +3324,86 @@ export default class StateManager {
       }
     });
 
+    (json.rejectStates ?? []).forEach((state) => {
+      const node = StateManager._nodeWrappers.find((n) => n.id === state);
+      if (node) {
+        node.isRejectNode = true;
+      }
+    });
+
     // Load the alphabet
     alphabet.forEach((tok) => {
-      const newTok = new TokenWrapper(tok.symbol, tok.id);
+      const newTok =
+        existingTokens.find((existing) => existing.id === tok.id) ??
+        new TokenWrapper(tok.symbol, tok.id);
       StateManager._alphabet.push(newTok);
     });
+    (json.stackAlphabet ?? []).forEach((tok) => {
+      const newTok =
+        existingTokens.find((existing) => existing.id === tok.id) ??
+        new TokenWrapper(tok.symbol, tok.id);
+      StateManager._stackAlphabet.push(newTok);
+    });
+    (json.tapeAlphabet ?? []).forEach((tok) => {
+      const newTok =
+        existingTokens.find((existing) => existing.id === tok.id) ??
+        new TokenWrapper(tok.symbol, tok.id);
+      StateManager._tapeAlphabet.push(newTok);
+    });
+    const tapeSymbols = [
+      ...StateManager._alphabet,
+      ...StateManager._tapeAlphabet,
+    ];
 
     // Load transitions
     transitions.forEach((trans) => {
       const src = StateManager._nodeWrappers.find((n) => n.id === trans.source);
       const dest = StateManager._nodeWrappers.find((n) => n.id === trans.dest);
       const isEpsilonTransition = trans.isEpsilonTransition;
-      const tokens = trans.tokens.map((tokID) =>
-        StateManager._alphabet.find((tok) => tok.id === tokID),
-      );
+      // The tokens of a transition with a token selector are filled in from
+      // the selector, so only the selector is loaded
+      const tokens = trans.tokenSelector
+        ? []
+        : trans.tokens.map((tokID) =>
+            StateManager._alphabet.find((tok) => tok.id === tokID),
+          );
       const newTrans = new TransitionWrapper(
         src,
         dest,
         isEpsilonTransition,
         tokens,
       );
+      if (trans.tokenSelector) {
+        newTrans.tokenSelector = {
+          kind: trans.tokenSelector.kind,
+          except: trans.tokenSelector.except.map((tokID) =>
+            StateManager._alphabet.find((tok) => tok.id === tokID),
+          ),
+        };
+      }
+      newTrans.pdaRules = (trans.pdaRules ?? []).map((rule) => ({
+        input:
+          StateManager._alphabet.find((tok) => tok.id === rule.input) ?? null,
+        pop:
+          StateManager._stackAlphabet.find((tok) => tok.id === rule.pop) ??
+          null,
+        push: rule.push.map((symbolID) =>
+          StateManager._stackAlphabet.find((tok) => tok.id === symbolID),
+        ),
+      }));
+      newTrans.tmRules = (trans.tmRules ?? []).map((rule) => ({
+        read: tapeSymbols.find((tok) => tok.id === rule.read) ?? null,
+        write: tapeSymbols.find((tok) => tok.id === rule.write) ?? null,
+        move: rule.move,
+      }));
+      (trans.outputs ?? []).forEach((out) => {
+        const token = StateManager._alphabet.find(
+          (tok) => tok.id === out.token,
+        );
+        if (token) {
+          newTrans.setOutput(token, outputSymbolWithID(out.output));
+        }
+      });
 
       StateManager._transitionWrappers.push(newTrans);
       StateManager._transitionLayer.add(newTrans.konvaGroup);
@@ -2164,106 +3420,435 @@ export default class StateManager {
     }
 
     // Accept states are loaded at the same time as states themselves
+  }
 
-    // Refresh canvas?
+  /**
+   * Pushes an action to the action stack that replaces the entire automaton
+   * (states, transitions, alphabet and type) with the one described by the
+   * given JSON representation. Undoing the action brings back the automaton
+   * as it was before.
+   * @param json The automaton to replace the current one with.
+   * @param displayString The text to show for this action in the action
+   * stack.
+   */
+  public static replaceAutomaton(
+    json: SerializableAutomaton,
+    displayString: string,
+  ) {
+    if (this.debugActive) return;
 
-    this._stage.draw();
+    const replaceAutomatonForward = (data: ReplaceAutomatonActionData) => {
+      StateManager.deselectAllObjects();
+      StateManager.removeAutomatonContents();
+
+      if (data.newContents === null) {
+        // First time performing the action, so create the new automaton.
+        // The alphabet carries over, so the token separator does too unless
+        // the new automaton has its own.
+        StateManager.addAutomatonContents(
+          { tokenSeparator: data.oldContents.tokenSeparator, ...data.json },
+          [
+            ...data.oldContents.alphabet,
+            ...data.oldContents.stackAlphabet,
+            ...data.oldContents.tapeAlphabet,
+            ...data.oldContents.outputAlphabet,
+          ],
+        );
+        data.newContents = StateManager.automatonContents;
+      } else {
+        // Redoing the action, so reuse the automaton created before
+        StateManager.restoreAutomatonContents(data.newContents);
+      }
+
+      StateManager._nodeLayer?.draw();
+      StateManager.updateTransitions();
+    };
+
+    const replaceAutomatonBackward = (data: ReplaceAutomatonActionData) => {
+      StateManager.deselectAllObjects();
+      StateManager.removeAutomatonContents();
+      StateManager.restoreAutomatonContents(data.oldContents);
+
+      StateManager._nodeLayer?.draw();
+      StateManager.updateTransitions();
+    };
+
+    const replaceAutomatonAction = new Action(
+      "replaceAutomaton",
+      displayString,
+      replaceAutomatonForward,
+      replaceAutomatonBackward,
+      {
+        json: json,
+        oldContents: StateManager.automatonContents,
+        newContents: null,
+      },
+    );
+    UndoRedoManager.pushAction(replaceAutomatonAction);
   }
 
-  public static isValidAutomaton(
-    json: SerializableAutomaton,
+  /**
+   * Gets the objects that currently make up the automaton, so that they can
+   * be put back later with `StateManager.restoreAutomatonContents`.
+   */
+  private static get automatonContents(): AutomatonContents {
+    return {
+      nodes: [...StateManager._nodeWrappers],
+      transitions: [...StateManager._transitionWrappers],
+      alphabet: [...StateManager._alphabet],
+      startNode: StateManager._startNode,
+      type: StateManager._automatonType,
+      stackAlphabet: [...StateManager._stackAlphabet],
+      pdaAcceptance: StateManager._pdaAcceptance,
+      tapeAlphabet: [...StateManager._tapeAlphabet],
+      tmStepLimit: StateManager._tmStepLimit,
+      tokenSeparator: StateManager._tokenSeparator,
+      outputAlphabet: [...StateManager._outputAlphabet],
+    };
+  }
+
+  /**
+   * Immediately removes every node, transition and token from the automaton.
+   *
+   * **NOTE:** This method is *not* undo/redo safe. It is meant to be used
+   * by actions that swap out the entire automaton.
+   */
+  private static removeAutomatonContents() {
+    StateManager._transitionWrappers.forEach((trans) =>
+      trans.konvaGroup.remove(),
+    );
+    StateManager._nodeWrappers.forEach((node) => node.nodeGroup.remove());
+
+    StateManager._transitionWrappers = [];
+    StateManager._nodeWrappers = [];
+    StateManager._alphabet = [];
+    StateManager._stackAlphabet = [];
+    StateManager._tapeAlphabet = [];
+    StateManager._outputAlphabet = [];
+    StateManager.startNode = null;
+  }
+
+  /**
+   * Immediately puts back objects that previously made up the automaton.
+   *
+   * **NOTE:** This method is *not* undo/redo safe, and expects the current
+   * automaton to be empty. It is meant to be used by actions that swap out
+   * the entire automaton.
+   * @param contents The objects to put back, from
+   * `StateManager.automatonContents`.
+   */
+  private static restoreAutomatonContents(contents: AutomatonContents) {
+    contents.nodes.forEach((node) => {
+      StateManager._nodeWrappers.push(node);
+      StateManager._nodeLayer.add(node.nodeGroup);
+    });
+    contents.transitions.forEach((trans) => {
+      StateManager._transitionWrappers.push(trans);
+      StateManager._transitionLayer.add(trans.konvaGroup);
+    });
+    StateManager._alphabet = [...contents.alphabet];
+    StateManager.startNode = contents.startNode;
+    StateManager._automatonType = contents.type;
+    StateManager._stackAlphabet = [...contents.stackAlphabet];
+    StateManager._pdaAcceptance = contents.pdaAcceptance;
+    StateManager._tapeAlphabet = [...contents.tapeAlphabet];
+    StateManager._tmStepLimit = contents.tmStepLimit;
+    StateManager._tokenSeparator = contents.tokenSeparator;
+    StateManager._outputAlphabet = [...contents.outputAlphabet];
+  }
+
+  /**
+   * Pushes an action to the action stack that replaces the current automaton
+   * with an equivalent DFA, built with the subset construction. Each new
+   * state is labeled with the set of original states it represents.
+   * @returns {[boolean, string]} Whether or not the conversion could be
+   * done, and if not, a message explaining why.
+   */
+  public static convertNFAToDFA(): [boolean, string] {
+    if (!isFiniteAutomatonType(StateManager._automatonType)) {
+      return [false, "Only finite automata can be converted to a DFA."];
+    }
+    if (StateManager._startNode === null) {
+      return [false, "The automaton needs a start state to be converted."];
+    }
+    if (!StateManager.areAllTokensUnique()) {
+      return [false, "Each token must be unique to convert the automaton."];
+    }
+
+    const dfa = layoutAutomaton(
+      subsetConstruction(StateManager.toSerializable()),
+      StateManager._startNode.nodeGroup.position(),
+    );
+    StateManager.replaceAutomaton(dfa, "Convert NFA To DFA");
+    return [true, ""];
+  }
+
+  /**
+   * Pushes an action to the action stack that replaces the current DFA with
+   * an equivalent minimal DFA. Unreachable states are removed, and
+   * equivalent states are merged into one state labeled with all of their
+   * labels (e.g. `q1,q3`).
+   * @returns {[boolean, string]} Whether or not the DFA could be minimized,
+   * and if not, a message explaining why.
+   */
+  public static minimizeDFA(): [boolean, string] {
+    if (StateManager._automatonType !== AutomatonType.DFA) {
+      return [false, "Convert the automaton to a DFA before minimizing it."];
+    }
+    if (StateManager._startNode === null) {
+      return [false, "The automaton needs a start state to be minimized."];
+    }
+    if (StateManager.dfa.getErrors().length > 0) {
+      return [false, "Fix the errors in the DFA before minimizing it."];
+    }
+
+    const minimized = minimizeDFA(StateManager.toSerializable());
+    StateManager.replaceAutomaton(minimized, "Minimize DFA");
+    return [true, ""];
+  }
+
+  /**
+   * Pushes an action to the action stack that replaces the current automaton
+   * with one built from a regular expression over the current alphabet. The
+   * automaton is built with Thompson's construction, and can optionally be
+   * converted to a DFA and minimized afterwards.
+   * @param regex The regular expression. See `parseRegex` for the syntax.
+   * @param determinize Whether or not to convert the resulting NFA to a DFA.
+   * @param minimize Whether or not to minimize the resulting DFA. Has no
+   * effect unless `determinize` is also `true`.
+   * @returns {[boolean, string]} Whether or not the automaton could be built,
+   * and if not, a message explaining why.
+   */
+  public static buildAutomatonFromRegex(
+    regex: string,
+    determinize: boolean,
+    minimize: boolean,
   ): [boolean, string] {
-    // for now just console log, not sure how to desiplay window
-    if (
-      !json ||
-      !json.states ||
-      !json.alphabet ||
-      !json.transitions ||
-      !json.startState ||
-      !json.acceptStates
-    ) {
-      console.error("Missing required fields");
-      return [false, "This automaton could not be read."];
+    if (!StateManager.areAllTokensUnique()) {
+      return [false, "Each token must be unique to build an automaton."];
     }
 
-    if (!json.states.every((state) => this.isValidState(state))) {
-      console.error("states not properly formatted");
-      return [false, "This automaton's states could not be read."];
+    const alphabet = StateManager._alphabet.map((tok) => tok.toSerializable());
+    let parsed: RegexNode;
+    try {
+      parsed = parseRegex(
+        regex,
+        alphabet.map((tok) => tok.symbol),
+      );
+    } catch (e) {
+      return [false, (e as Error).message];
     }
 
-    if (!json.alphabet.every((token) => this.isValidToken(token))) {
-      console.error("alphabet not properly formatted");
-      return [false, "This automaton's alphabet could not be read."];
+    let automaton = thompsonConstruction(parsed, alphabet);
+    if (determinize) {
+      automaton = subsetConstruction(automaton);
+      if (minimize) {
+        automaton = minimizeDFA(automaton);
+      }
     }
 
+    // Put the new automaton where the old one started, if there was one
+    const origin = StateManager._startNode?.nodeGroup.position() ?? {
+      x: 200,
+      y: 300,
+    };
+    StateManager.replaceAutomaton(
+      layoutAutomaton(automaton, origin),
+      `Build Automaton From "${regex}"`,
+    );
+    return [true, ""];
+  }
+
+  /**
+   * Pushes an action to the action stack that replaces the current automaton
+   * with the product DFA of it and another automaton, accepting their union,
+   * intersection, or difference. Tokens in the two automata are matched by
+   * symbol, and any tokens only in the other automaton are added to the
+   * alphabet.
+   * @param other The other automaton, e.g. loaded from a JSON file.
+   * @param operation How to combine the two automata.
+   * @returns {[boolean, string]} Whether or not the automata could be
+   * combined, and if not, a message explaining why.
+   */
+  public static combineWithAutomaton(
+    other: SerializableAutomaton,
+    operation: ProductOperation,
+  ): [boolean, string] {
     if (
-      !json.transitions.every((transition) =>
-        this.isValidTransition(transition, json),
-      )
+      !isFiniteAutomatonType(StateManager._automatonType) ||
+      !isFiniteAutomatonType(other.type ?? AutomatonType.DFA)
     ) {
-      console.error("Invalid 'transitions' format.");
-      return [false, "This automaton's transitions could not be read."];
+      return [false, "Only finite automata can be combined."];
+    }
+    if (StateManager._startNode === null) {
+      return [false, "The automaton needs a start state to be combined."];
+    }
+    if (!StateManager.areAllTokensUnique()) {
+      return [false, "Each token must be unique to combine the automaton."];
     }
 
-    if (
-      typeof json.startState !== "string" ||
-      !json.states.some((state) => state.id === json.startState)
-    ) {
-      console.error("Invalid 'startState' format.");
-      return [false, "This automaton's start state could not be read."];
+    const product = layoutAutomaton(
+      productAutomaton(StateManager.toSerializable(), other, operation),
+      StateManager._startNode.nodeGroup.position(),
+    );
+    const operationName =
+      operation.charAt(0).toUpperCase() + operation.slice(1);
+    StateManager.replaceAutomaton(
+      product,
+      `${operationName} With Loaded Automaton`,
+    );
+    return [true, ""];
+  }
+
+  /**
+   * Pushes an action to the action stack that replaces the current DFA with
+   * its complement, which accepts exactly the strings the DFA rejects. If
+   * the DFA is missing any transitions, a trap state is added first.
+   * @returns {[boolean, string]} Whether or not the DFA could be
+   * complemented, and if not, a message explaining why.
+   */
+  public static complementDFA(): [boolean, string] {
+    if (StateManager._automatonType !== AutomatonType.DFA) {
+      return [false, "Convert the automaton to a DFA before complementing it."];
+    }
+    if (StateManager._startNode === null) {
+      return [false, "The automaton needs a start state to be complemented."];
+    }
+    if (!StateManager.areAllTokensUnique()) {
+      return [false, "Each token must be unique to complement the automaton."];
     }
 
-    if (!this.isArrayOfStrings(json.acceptStates)) {
-      console.error("Invalid 'acceptStates' format.");
-      return [false, "This automaton's accept states could not be read."];
+    const automaton = StateManager.toSerializable();
+    if (!isDeterministic(automaton)) {
+      return [
+        false,
+        "The DFA can't have ε transitions or more than one transition out of a state for the same token.",
+      ];
     }
 
+    StateManager.replaceAutomaton(complementDFA(automaton), "Complement DFA");
     return [true, ""];
   }
 
-  private static isValidState(state: SerializableState): boolean {
-    return (
-      typeof state.id === "string" &&
-      typeof state.x === "number" &&
-      typeof state.y === "number" &&
-      typeof state.label === "string"
+  /**
+   * Pushes an action to the action stack that removes every node that can't
+   * be reached from the start node, along with their transitions.
+   * @returns {[boolean, string]} Whether or not any nodes were removed, and
+   * if not, a message explaining why.
+   */
+  public static removeUnreachableNodes(): [boolean, string] {
+    if (this.debugActive) {
+      return [false, "Please disable Debug Mode before editing the automaton."];
+    }
+
+    const unreachable = StateManager.unreachableNodes;
+    if (unreachable.length === 0) {
+      return [false, "Every state can be reached from the start state."];
+    }
+
+    const removeData = new RemoveNodeActionDataMulti();
+    removeData.nodes = unreachable;
+    removeData.transitions = StateManager._transitionWrappers.filter(
+      (trans) =>
+        unreachable.includes(trans.sourceNode) ||
+        unreachable.includes(trans.destNode),
     );
-  }
 
-  private static isValidToken(token: SerializableToken): boolean {
-    return typeof token.id === "string" && typeof token.symbol === "string";
+    StateManager.pushRemoveObjectsAction(
+      "removeUnreachableNodes",
+      `Remove ${unreachable.length} Unreachable State${unreachable.length !== 1 ? "s" : ""}`,
+      removeData,
+    );
+    return [true, ""];
   }
 
-  private static isValidTransition(
-    transition: SerializableTransition,
-    json: SerializableAutomaton,
-  ): boolean {
-    if (
-      typeof transition.id !== "string" ||
-      typeof transition.source !== "string" ||
-      typeof transition.dest !== "string" ||
-      typeof transition.isEpsilonTransition !== "boolean" ||
-      !this.isArrayOfStrings(transition.tokens)
-    ) {
-      return false;
+  /**
+   * Pushes an action to the action stack that adds a trap state: a
+   * non-accepting state that loops back to itself on every token. Every
+   * state that has no transition for some tokens gets a new transition to
+   * the trap state on all of them, so no transitions are missing afterwards.
+   * @returns {[boolean, string]} Whether or not the trap state was added,
+   * and if not, a message explaining why.
+   */
+  public static addTrapState(): [boolean, string] {
+    if (this.debugActive) {
+      return [false, "Please disable Debug Mode before editing the automaton."];
     }
 
-    const stateIds = new Set(json.states?.map((state: any) => state.id) || []);
-    const tokenIds = new Set(
-      json.alphabet?.map((token: any) => token.id) || [],
-    );
+    const automaton = StateManager.toSerializable();
+    const completed = addTrapState(automaton);
+    if (completed.states.length === automaton.states.length) {
+      return [false, "No states are missing any transitions."];
+    }
 
-    return (
-      stateIds.has(transition.source) &&
-      stateIds.has(transition.dest) &&
-      transition.tokens.every((tok) => tokenIds.has(tok))
+    // The trap state and its transitions are added at the end of the lists
+    const trapState = completed.states[completed.states.length - 1];
+    const newTransitions = completed.transitions.slice(
+      automaton.transitions.length,
     );
-  }
 
-  private static isArrayOfStrings(value: any): boolean {
-    return (
-      Array.isArray(value) && value.every((item) => typeof item === "string")
+    const addTrapStateForward = (data: AddTrapStateActionData) => {
+      if (data.node === null) {
+        // First time adding the trap state, so create it
+        data.node = new NodeWrapper(trapState.label, trapState.id);
+        data.node.createKonvaObjects(trapState.x, trapState.y);
+        StateManager._nodeWrappers.push(data.node);
+        StateManager._nodeLayer?.add(data.node.nodeGroup);
+
+        newTransitions.forEach((trans) => {
+          const transition = new TransitionWrapper(
+            StateManager._nodeWrappers.find((n) => n.id === trans.source),
+            StateManager._nodeWrappers.find((n) => n.id === trans.dest),
+            false,
+            trans.tokens.map((tokenID) =>
+              StateManager._alphabet.find((tok) => tok.id === tokenID),
+            ),
+          );
+          StateManager._transitionWrappers.push(transition);
+          StateManager._transitionLayer?.add(transition.konvaGroup);
+          data.transitions.push(transition);
+        });
+      } else {
+        // Redoing the action, so reuse the trap state and transitions
+        StateManager._nodeWrappers.push(data.node);
+        StateManager._nodeLayer?.add(data.node.nodeGroup);
+        data.transitions.forEach((transition) => {
+          StateManager._transitionWrappers.push(transition);
+          StateManager._transitionLayer?.add(transition.konvaGroup);
+        });
+      }
+
+      StateManager._nodeLayer?.draw();
+      StateManager.updateTransitions();
+    };
+
+    const addTrapStateBackward = (data: AddTrapStateActionData) => {
+      StateManager.deselectAllObjects();
+
+      data.transitions.forEach((transition) => {
+        StateManager._transitionWrappers =
+          StateManager._transitionWrappers.filter((t) => t !== transition);
+        transition.konvaGroup.remove();
+      });
+
+      StateManager._nodeWrappers = StateManager._nodeWrappers.filter(
+        (n) => n !== data.node,
+      );
+      data.node.nodeGroup.remove();
+
+      StateManager._nodeLayer?.draw();
+      StateManager.updateTransitions();
+    };
+
+    const addTrapStateAction = new Action(
+      "addTrapState",
+      `Add Trap State "${trapState.label}"`,
+      addTrapStateForward,
+      addTrapStateBackward,
+      { node: null, transitions: [] },
     );
+    UndoRedoManager.pushAction(addTrapStateAction);
+    return [true, ""];
   }
 
   /** Sets whether or not dark mode is enabled. */
@@ -2411,48 +3996,6 @@ export default class StateManager {
   }
 }
 
-/**
- * A representation of an automaton that can be converted to and from a JSON
- * string.
- */
-interface SerializableAutomaton {
-  states: Array<SerializableState>;
-  alphabet: Array<SerializableToken>;
-  transitions: Array<SerializableTransition>;
-  startState: string;
-  acceptStates: Array<string>;
-}
-
-/**
- * A representation of a node that can be converted to and from a JSON string.
- */
-export interface SerializableState {
-  id: string;
-  x: number;
-  y: number;
-  label: string;
-}
-
-/**
- * A representation of a token that can be converted to and from a JSON string.
- */
-export interface SerializableToken {
-  id: string;
-  symbol: string;
-}
-
-/**
- * A representation of a transition that can be converted to and from a JSON
- * string.
- */
-export interface SerializableTransition {
-  id: string;
-  source: string;
-  dest: string;
-  isEpsilonTransition: boolean;
-  tokens: Array<string>;
-}
-
 /** Holds the data associated with a "create node" action. */
 class CreateNodeActionData extends ActionData {
   /** The X coordinate where the node is created. */
@@ -2564,6 +4107,12 @@ class AddTokenActionData extends ActionData {
   public token: TokenWrapper;
 }
 
+/** Holds the data associated with an "add token range" action. */
+class AddTokenRangeActionData extends ActionData {
+  /** The tokens created in this action. */
+  public tokens: Array<TokenWrapper>;
+}
+
 /** Holds the data associated with a "remove token from automaton" action. */
 class RemoveTokenActionData extends ActionData {
   /** The token removed in this action. */
@@ -2588,6 +4137,171 @@ class SetTokenSymbolActionData extends ActionData {
   public token: TokenWrapper;
 }
 
+/** Holds the data associated with an "add trap state" action. */
+class AddTrapStateActionData extends ActionData {
+  /** The trap state created in this action. */
+  public node: NodeWrapper | null;
+
+  /** The transitions to and from the trap state created in this action. */
+  public transitions: TransitionWrapper[];
+}
+
+/** Holds the data associated with a "remove stack symbol" action. */
+class RemoveStackSymbolActionData extends ActionData {
+  /** The stack symbol removed in this action. */
+  public token: TokenWrapper;
+
+  /**
+   * The rules of each transition that used this stack symbol at the time of
+   * this action, before the rules using it were removed.
+   */
+  public oldPDARules: Map<TransitionWrapper, Array<PDARule>>;
+}
+
+/** Holds the data associated with a "set transition PDA rules" action. */
+class SetTransitionPDARulesActionData extends ActionData {
+  /** The transition modified in this action. */
+  public transition: TransitionWrapper;
+
+  /** The transition's rules before this action. */
+  public oldRules: Array<PDARule>;
+
+  /** The transition's rules after this action. */
+  public newRules: Array<PDARule>;
+}
+
+/** Holds the data associated with a "remove tape symbol" action. */
+class RemoveTapeSymbolActionData extends ActionData {
+  /** The tape symbol removed in this action. */
+  public token: TokenWrapper;
+
+  /**
+   * The rules of each transition that used this tape symbol at the time of
+   * this action, before the rules using it were removed.
+   */
+  public oldTMRules: Map<TransitionWrapper, Array<TMRule>>;
+}
+
+/** Holds the data associated with a "set transition TM rules" action. */
+class SetTransitionTMRulesActionData extends ActionData {
+  /** The transition modified in this action. */
+  public transition: TransitionWrapper;
+
+  /** The transition's rules before this action. */
+  public oldRules: Array<TMRule>;
+
+  /** The transition's rules after this action. */
+  public newRules: Array<TMRule>;
+}
+
+/** Holds the data associated with a "set nodes output" action. */
+class SetNodesOutputActionData extends ActionData {
+  /** The symbol each node output before this action. */
+  public oldOutputs: Array<TokenWrapper | null>;
+
+  /** The symbol the nodes output after this action. */
+  public newOutput: TokenWrapper | null;
+
+  /** The nodes to set the output of in this action. */
+  public nodes: NodeWrapper[];
+}
+
+/** Holds the data associated with a "set transition output" action. */
+class SetTransitionOutputActionData extends ActionData {
+  /** The transition modified in this action. */
+  public transition: TransitionWrapper;
+
+  /** The input token whose output is set in this action. */
+  public token: TokenWrapper;
+
+  /** The symbol output for the token before this action. */
+  public oldOutput: TokenWrapper | null;
+
+  /** The symbol output for the token after this action. */
+  public newOutput: TokenWrapper | null;
+}
+
+/** Holds the data associated with a "set TM step limit" action. */
+class SetTMStepLimitActionData extends ActionData {
+  /** The step limit before this action. */
+  public oldLimit: number;
+
+  /** The step limit after this action. */
+  public newLimit: number;
+}
+
+/** Holds the data associated with a "set transition token selector" action. */
+class SetTokenSelectorActionData extends ActionData {
+  /** The transition modified in this action. */
+  public transition: TransitionWrapper;
+
+  /** The token selector before this action. */
+  public oldSelector: TokenSelector | null;
+
+  /** The token selector after this action. */
+  public newSelector: TokenSelector | null;
+}
+
+/** Holds the data associated with a "set token separator" action. */
+class SetTokenSeparatorActionData extends ActionData {
+  /** The token separator before this action. */
+  public oldSeparator: string;
+
+  /** The token separator after this action. */
+  public newSeparator: string;
+}
+
+/** Holds the data associated with a "set PDA acceptance" action. */
+class SetPDAAcceptanceActionData extends ActionData {
+  /** The acceptance mode before this action. */
+  public oldMode: PDAAcceptanceMode;
+
+  /** The acceptance mode after this action. */
+  public newMode: PDAAcceptanceMode;
+}
+
+/** Holds the data associated with a "set automaton type" action. */
+class SetAutomatonTypeActionData extends ActionData {
+  /** The automaton type before this action. */
+  public oldType: AutomatonType;
+
+  /** The automaton type after this action. */
+  public newType: AutomatonType;
+}
+
+/**
+ * The objects that make up an automaton at a given point in time, so that
+ * the whole automaton can be swapped out and put back.
+ */
+interface AutomatonContents {
+  nodes: Array<NodeWrapper>;
+  transitions: Array<TransitionWrapper>;
+  alphabet: Array<TokenWrapper>;
+  startNode: NodeWrapper | null;
+  type: AutomatonType;
+  stackAlphabet: Array<TokenWrapper>;
+  pdaAcceptance: PDAAcceptanceMode;
+  tapeAlphabet: Array<TokenWrapper>;
+  tmStepLimit: number;
+  tokenSeparator: string;
+  outputAlphabet: Array<TokenWrapper>;
+}
+
+/** Holds the data associated with a "replace automaton" action. */
+class ReplaceAutomatonActionData extends ActionData {
+  /** The JSON representation of the automaton to replace the current one. */
+  public json: SerializableAutomaton;
+
+  /** The objects that made up the automaton before this action. */
+  public oldContents: AutomatonContents;
+
+  /**
+   * The objects that made up the automaton after this action, or `null` if
+   * the action hasn't been performed yet.
+   */
+  public newContents: AutomatonContents | null;
+}
+
 /** Holds the data associated with a "paste" action. */
 class PasteActionData extends ActionData {
   /** The nodes created in this action. */
@@ -1,10 +1,102 @@
 import Konva from "konva";
 import NodeWrapper from "./NodeWrapper";
 import SelectableObject from "./SelectableObject";
-import StateManager, { SerializableTransition } from "./StateManager";
+import StateManager from "./StateManager";
+import { SerializableTransition } from "./SerializableAutomaton";
 import { Tool } from "./Tool";
 import TokenWrapper from "./TokenWrapper";
 import { v4 as uuidv4 } from "uuid";
+import { AutomatonType } from "./AutomatonType";
+import { BlankSymbol, TMMove } from "./utilities/TMUtilities";
+import { TokenSelectorKind } from "./utilities/TokenSelectorUtilities";
+
+/**
+ * One of the rules a pushdown automaton's transition can be followed on.
+ * Input tokens come from the automaton's alphabet, and stack symbols come
+ * from its stack alphabet.
+ */
+export interface PDARule {
+  /** The input token to read, or `null` to read nothing (ε). */
+  input: TokenWrapper | null;
+
+  /** The stack symbol to pop, or `null` to pop nothing (ε). */
+  pop: TokenWrapper | null;
+
+  /** The stack symbols to push, from the top down. Empty to push nothing. */
+  push: Array<TokenWrapper>;
+}
+
+/**
+ * Formats a PDA rule the way it appears on a transition, e.g. `a, X / YX`
+ * to read `a`, pop `X`, then push `YX` (leaving `Y` on top).
+ * @param rule The rule to format.
+ * @returns {string} The formatted rule.
+ */
+export function pdaRuleLabel(rule: PDARule): string {
+  const input = rule.input?.symbol ?? "ε";
+  const pop = rule.pop?.symbol ?? "ε";
+  const push =
+    rule.push.length > 0 ? rule.push.map((tok) => tok.symbol).join("") : "ε";
+  return `${input}, ${pop} / ${push}`;
+}
+
+/**
+ * One of the rules a Turing machine's transition can be followed on. Tape
+ * symbols come from the automaton's alphabet or its tape alphabet.
+ */
+export interface TMRule {
+  /** The symbol that must be under the head, or `null` for a blank cell. */
+  read: TokenWrapper | null;
+
+  /** The symbol to write under the head, or `null` to blank the cell. */
+  write: TokenWrapper | null;
+
+  /** Which way to move the head after writing. */
+  move: TMMove;
+}
+
+/**
+ * Formats a Turing machine rule the way it appears on a transition, e.g.
+ * `a → X, R` to read `a`, write `X`, then move right.
+ * @param rule The rule to format.
+ * @returns {string} The formatted rule.
+ */
+export function tmRuleLabel(rule: TMRule): string {
+  const read = rule.read?.symbol ?? BlankSymbol;
+  const write = rule.write?.symbol ?? BlankSymbol;
+  return `${read} → ${write}, ${rule.move}`;
+}
+
+/**
+ * Picks a transition's tokens without listing them one by one, which saves
+ * ticking every token of a large alphabet.
+ */
+export interface TokenSelector {
+  /** How the tokens are picked. */
+  kind: TokenSelectorKind;
+
+  /**
+   * The tokens left out when the kind is `AnyExcept`. Empty for other
+   * kinds.
+   */
+  except: Array<TokenWrapper>;
+}
+
+/**
+ * Formats a token selector the way it appears on a transition: `other` for
+ * all other tokens, or e.g. `Σ−{a,b}` for any token except `a` and `b`.
+ * @param selector The selector to format.
+ * @returns {string} The formatted selector.
+ */
+export function tokenSelectorLabel(selector: TokenSelector): string {
+  if (selector.kind === TokenSelectorKind.AllOther) {
+    return "other";
+  }
+  if (selector.except.length === 0) {
+    return "Σ";
+  }
+  return `Σ−{${selector.except.map((tok) => tok.symbol).join(",")}}`;
+}
 
 /**
  * The class that holds transition information (source node, destination node,
@@ -40,6 +132,32 @@ export default class TransitionWrapper extends SelectableObject {
 
   private _isEpsilonTransition: boolean;
 
+  private _pdaRules: Array<PDARule> = [];
+
+  private _tmRules: Array<TMRule> = [];
+
+  /**
+   * Picks this transition's tokens instead of `_tokens`, or `null` if the
+   * tokens are listed one by one. The listed tokens are kept while a selector
+   * is used, so they come back if the selector is removed.
+   */
+  private _tokenSelector: TokenSelector | null = null;
+
+  private _isSelected: boolean = false;
+
+  /**
+   * Whether the simulation player shows this transition as the one just
+   * followed.
+   */
+  private _isSimulationActive: boolean = false;
+
+  /**
+   * The symbol output for each input token, used when the automaton is a
+   * Mealy machine. Outputs for tokens the transition no longer accepts are
+   * kept, so they come back if the token is added again.
+   */
+  private _outputs: Map<TokenWrapper, TokenWrapper> = new Map();
+
   private readonly _id: string;
 
   /**
@@ -142,12 +260,30 @@ export default class TransitionWrapper extends SelectableObject {
    * accepts.
    */
   private resetLabel() {
+    if (StateManager.automatonType === AutomatonType.PDA) {
+      this.labelObject.text(this._pdaRules.map(pdaRuleLabel).join("\n"));
+      return;
+    }
+    if (StateManager.automatonType === AutomatonType.TM) {
+      this.labelObject.text(this._tmRules.map(tmRuleLabel).join("\n"));
+      return;
+    }
+
     let text = [];
     if (this.isEpsilonTransition) {
       text.push("ε");
     }
 
-    this._tokens.forEach((tok) => text.push(tok.symbol));
+    if (this._tokenSelector) {
+      text.push(tokenSelectorLabel(this._tokenSelector));
+    } else if (StateManager.automatonType === AutomatonType.Mealy) {
+      // Each token is shown with its output, e.g. "a/1"
+      this._tokens.forEach((tok) =>
+        text.push(`${tok.symbol}/${this._outputs.get(tok)?.symbol ?? "ε"}`),
+      );
+    } else {
+      this._tokens.forEach((tok) => text.push(tok.symbol));
+    }
     this.labelObject.text(text.join(","));
   }
 
@@ -383,12 +519,8 @@ export default class TransitionWrapper extends SelectableObject {
    * mode, the arrow and labels appear red).
    */
   public select(): void {
-    this.arrowObject.fill(
-      StateManager.colorScheme.transitionSelectedArrowColor,
-    );
-    this.arrowObject.stroke(
-      StateManager.colorScheme.transitionSelectedArrowColor,
-    );
+    this._isSelected = true;
+    this.updateAppearance();
   }
 
   /**
@@ -396,8 +528,40 @@ export default class TransitionWrapper extends SelectableObject {
    * light mode, the arrow and labels appear dark.)
    */
   public deselect(): void {
-    this.arrowObject.fill(StateManager.colorScheme.transitionArrowColor);
-    this.arrowObject.stroke(StateManager.colorScheme.transitionArrowColor);
+    this._isSelected = false;
+    this.updateAppearance();
+  }
+
+  /**
+   * Sets whether the transition is highlighted as the one just followed
+   * during a simulation, and updates its appearance.
+   * @param isActive - True if the transition was just followed; false
+   * otherwise.
+   */
+  public setSimulationActiveState(isActive: boolean) {
+    this._isSimulationActive = isActive;
+    this.updateAppearance();
+  }
+
+  /**
+   * Colors the arrow and label to show whether the transition is selected
+   * (which takes priority) or highlighted by the simulation player.
+   */
+  private updateAppearance() {
+    let arrowColor = StateManager.colorScheme.transitionArrowColor;
+    if (this._isSelected) {
+      arrowColor = StateManager.colorScheme.transitionSelectedArrowColor;
+    } else if (this._isSimulationActive) {
+      arrowColor = StateManager.colorScheme.simulationTransitionColor;
+    }
+    this.arrowObject.fill(arrowColor);
+    this.arrowObject.stroke(arrowColor);
+    this.labelObject.fill(
+      this._isSimulationActive
+        ? StateManager.colorScheme.simulationTransitionColor
+        : StateManager.colorScheme.transitionLabelColor,
+    );
+    this.konvaGroup.getLayer()?.batchDraw();
   }
 
   /**
@@ -461,17 +625,138 @@ export default class TransitionWrapper extends SelectableObject {
     return this._isEpsilonTransition;
   }
 
+  /**
+   * The rules this transition can be followed on when the automaton is a
+   * PDA. Setting this replaces all of the rules.
+   */
+  public get pdaRules(): Array<PDARule> {
+    return this._pdaRules;
+  }
+
+  public set pdaRules(value: Array<PDARule>) {
+    this._pdaRules = value;
+    this.updatePoints();
+  }
+
+  /**
+   * The rules this transition can be followed on when the automaton is a
+   * Turing machine. Setting this replaces all of the rules.
+   */
+  public get tmRules(): Array<TMRule> {
+    return this._tmRules;
+  }
+
+  public set tmRules(value: Array<TMRule>) {
+    this._tmRules = value;
+    this.updatePoints();
+  }
+
+  /**
+   * Picks this transition's tokens without listing them one by one, or
+   * `null` if the tokens are listed. Setting this replaces the selector.
+   */
+  public get tokenSelector(): TokenSelector | null {
+    return this._tokenSelector;
+  }
+
+  public set tokenSelector(value: TokenSelector | null) {
+    this._tokenSelector = value;
+    this.updatePoints();
+  }
+
+  /**
+   * Gets the symbol this transition outputs for the given input token in a
+   * Mealy machine.
+   * @param tok The input token.
+   * @returns The output symbol, or `null` if the token has no output.
+   */
+  public outputFor(tok: TokenWrapper): TokenWrapper | null {
+    return this._outputs.get(tok) ?? null;
+  }
+
+  /**
+   * Sets the symbol this transition outputs for the given input token in a
+   * Mealy machine.
+   * @param tok The input token.
+   * @param output The output symbol, or `null` to output nothing.
+   */
+  public setOutput(tok: TokenWrapper, output: TokenWrapper | null) {
+    if (output === null) {
+      this._outputs.delete(tok);
+    } else {
+      this._outputs.set(tok, output);
+    }
+    this.updatePoints();
+  }
+
+  /**
+   * Checks if this transition can never be followed, because it has no
+   * tokens or token selector and doesn't accept the empty string (or, for a
+   * PDA or Turing machine, because it has no rules).
+   */
+  public get isEmpty(): boolean {
+    if (StateManager.automatonType === AutomatonType.PDA) {
+      return this._pdaRules.length === 0;
+    }
+    if (StateManager.automatonType === AutomatonType.TM) {
+      return this._tmRules.length === 0;
+    }
+    return (
+      this._tokens.size === 0 &&
+      this._tokenSelector === null &&
+      !this._isEpsilonTransition
+    );
+  }
+
   /**
    * Converts this transition wrapper into an object that can be serialized.
+   * If the transition has a token selector, its tokens are left empty, since
+   * filling them in depends on the rest of the automaton (see
+   * `expandTokenSelectors`). All of its outputs are kept, since which
+   * tokens it accepts isn't known yet either.
    * @returns {SerializableTransition} The serializable transition object.
    */
   public toSerializable(): SerializableTransition {
+    const outputTokens = this._tokenSelector
+      ? Array.from(this._outputs.keys())
+      : Array.from(this._tokens.values()).filter((tok) =>
+          this._outputs.has(tok),
+        );
+
     return {
       id: this.id,
       source: this._sourceNode.id,
       dest: this._destNode.id,
       isEpsilonTransition: this.isEpsilonTransition,
-      tokens: Array.from(this._tokens.values()).map((tok) => tok.id),
+      tokens: this._tokenSelector
+        ? []
+        : Array.from(this._tokens.values()).map((tok) => tok.id),
+      ...(this._tokenSelector && {
+        tokenSelector: {
+          kind: this._tokenSelector.kind,
+          except: this._tokenSelector.except.map((tok) => tok.id),
+        },
+      }),
+      ...(this._pdaRules.length > 0 && {
+        pdaRules: this._pdaRules.map((rule) => ({
+          input: rule.input?.id ?? null,
+          pop: rule.pop?.id ?? null,
+          push: rule.push.map((tok) => tok.id),
+        })),
+      }),
+      ...(outputTokens.length > 0 && {
+        outputs: outputTokens.map((tok) => ({
+          token: tok.id,
+          output: this._outputs.get(tok).id,
+        })),
+      }),
+      ...(this._tmRules.length > 0 && {
+        tmRules: this._tmRules.map((rule) => ({
+          read: rule.read?.id ?? null,
+          write: rule.write?.id ?? null,
+          move: rule.move,
+        })),
+      }),
     };
   }
 
@@ -480,8 +765,6 @@ export default class TransitionWrapper extends SelectableObject {
    * color scheme (light/dark mode).
    */
   public updateColorScheme() {
-    this.arrowObject.fill(StateManager.colorScheme.transitionArrowColor);
-    this.arrowObject.stroke(StateManager.colorScheme.transitionArrowColor);
-    this.labelObject.fill(StateManager.colorScheme.transitionLabelColor);
+    this.updateAppearance();
   }
 }
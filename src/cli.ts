@@ -0,0 +1,136 @@
+import { readFileSync } from "fs";
+import { SerializableAutomaton } from "./SerializableAutomaton";
+import { runTestSuite } from "./utilities/AutomatonRunUtilities";
+import {
+  SerializableTestCase,
+  isValidTestCase,
+} from "./utilities/TestUtilities";
+import { expandTokenSelectors } from "./utilities/TokenSelectorUtilities";
+import { isValidAutomaton } from "./utilities/ValidationUtilities";
+
+/**
+ * The exit codes of the command-line runner. Any code other than `Passed`
+ * means the automaton shouldn't be given full marks.
+ *
+ * - `Passed` - Every test passed.
+ * - `Failed` - At least one test failed.
+ * - `InvalidInput` - The files couldn't be read, or don't hold a valid
+ * automaton or at least one valid test, so no tests were run.
+ */
+enum ExitCode {
+  Passed = 0,
+  Failed = 1,
+  InvalidInput = 2,
+}
+
+const usage = "Usage: node dist/cli.js <automaton.json> [tests.json]";
+
+/**
+ * Reads a JSON file.
+ * @param {string} path The path of the file.
+ * @returns {unknown} The parsed contents of the file.
+ * @throws {Error} If the file can't be read or isn't valid JSON. The message
+ * says which file it was.
+ */
+function readJSONFile(path: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch {
+    throw new Error(`Could not read ${path}.`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${path} does not contain valid JSON.`);
+  }
+}
+
+/**
+ * Reads the tests to run, from a tests file in the format the Tests panel
+ * reads, or else from the tests saved with the automaton.
+ * @param {SerializableAutomaton} automaton The automaton being tested.
+ * @param {string | undefined} testsPath The path of the tests file, if one
+ * was given.
+ * @returns {Array<SerializableTestCase>} The tests.
+ * @throws {Error} If the tests file can't be read, or no valid tests were
+ * found. An empty list of tests counts as none, since passing it would say
+ * nothing about the automaton.
+ */
+function readTests(
+  automaton: SerializableAutomaton,
+  testsPath: string | undefined,
+): Array<SerializableTestCase> {
+  if (testsPath === undefined) {
+    if (!automaton.tests || automaton.tests.length === 0) {
+      throw new Error(
+        "The automaton file has no saved tests, so a tests file is needed.",
+      );
+    }
+    return automaton.tests;
+  }
+
+  const testFile = readJSONFile(testsPath) as { tests?: unknown };
+  if (
+    typeof testFile !== "object" ||
+    testFile === null ||
+    !Array.isArray(testFile.tests) ||
+    !testFile.tests.every(isValidTestCase)
+  ) {
+    throw new Error(`${testsPath} does not contain a list of valid tests.`);
+  }
+  if (testFile.tests.length === 0) {
+    throw new Error(`${testsPath} has no tests.`);
+  }
+  return testFile.tests;
+}
+
+/**
+ * Runs every test on an automaton file, prints the result of each test and a
+ * summary, and returns the exit code.
+ * @param {Array<string>} args The command-line arguments: the path of the
+ * automaton file, optionally followed by the path of a tests file.
+ * @returns {ExitCode} The exit code of the program.
+ */
+function main(args: Array<string>): ExitCode {
+  if (args.length < 1 || args.length > 2) {
+    console.error(usage);
+    return ExitCode.InvalidInput;
+  }
+  const [automatonPath, testsPath] = args;
+
+  let automaton: SerializableAutomaton;
+  let tests: Array<SerializableTestCase>;
+  try {
+    const json = readJSONFile(automatonPath) as SerializableAutomaton;
+    const [isValid, message] =
+      typeof json === "object" && json !== null
+        ? isValidAutomaton(json)
+        : [false, "The file does not contain an automaton."];
+    if (!isValid) {
+      throw new Error(`${automatonPath} is not a valid automaton. ${message}`);
+    }
+    automaton = expandTokenSelectors(json);
+    tests = readTests(automaton, testsPath);
+  } catch (e) {
+    console.error(e.message);
+    return ExitCode.InvalidInput;
+  }
+
+  const results = runTestSuite(automaton, tests);
+  results.forEach((result) => {
+    const inputString = result.string === "" ? "ε" : `"${result.string}"`;
+    const expected = result.expectedAccept ? "Accepted" : "Rejected";
+    console.log(
+      `${result.passed ? "PASS" : "FAIL"} ${inputString}: expected ${expected}, got ${result.actual}`,
+    );
+  });
+
+  const passed = results.filter((result) => result.passed).length;
+  console.log(
+    `\n${passed} of ${results.length} tests passed, ${results.length - passed} failed.`,
+  );
+  return passed === results.length ? ExitCode.Passed : ExitCode.Failed;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,95 @@
+import { useMemo } from "react";
+import StateManager from "../StateManager";
+import { isFiniteAutomatonType } from "../AutomatonType";
+import { useActionStack } from "../utilities/ActionStackUtilities";
+import { automatonToRegex } from "../utilities/RegexUtilities";
+import FloatingPanel from "./FloatingPanel";
+import InformationBox, { InformationBoxType } from "./InformationBox";
+import {
+  CoreListItem,
+  CoreListItem_Left,
+  CoreListItem_Right,
+} from "./ListItem";
+
+/**
+ * A panel that shows a regular expression accepting the same language as the
+ * current automaton, along with each step of the state elimination used to
+ * find it. The panel updates whenever the automaton changes.
+ */
+export default function AutomatonToRegexPanel() {
+  // Re-render whenever the automaton changes
+  const [currentStack, currentStackLocation] = useActionStack();
+
+  const isFiniteAutomaton = isFiniteAutomatonType(StateManager.automatonType);
+  const hasStartNode = StateManager.startNode !== null;
+  // State elimination can be slow, so the expression is only recomputed when
+  // the automaton changes. The stack itself is a new array after every
+  // change, which catches a new action replacing an undone one at the same
+  // stack location.
+  const result = useMemo(
+    () =>
+      isFiniteAutomaton
+        ? automatonToRegex(StateManager.toSerializable())
+        : { regex: "", steps: [] },
+    [currentStack, currentStackLocation, isFiniteAutomaton],
+  );
+
+  const copyRegex = () => {
+    navigator.clipboard.writeText(result.regex);
+  };
+
+  const displayStep = result.steps.map((step, stepIndex) => (
+    <div key={stepIndex} className="mb-2 text-left">
+      <div className="font-medium">
+        {stepIndex + 1}. {step.description}
+      </div>
+      {step.edges.length === 0 ? (
+        <div className="text-sm text-gray-600 dark:text-gray-300">
+          (no transitions)
+        </div>
+      ) : (
+        step.edges.map((edge, edgeIndex) => (
+          <CoreListItem key={edgeIndex}>
+            <CoreListItem_Left>
+              {edge.from} → {edge.to}
+            </CoreListItem_Left>
+            <CoreListItem_Right>
+              <span className="font-mono break-all">{edge.regex}</span>
+            </CoreListItem_Right>
+          </CoreListItem>
+        ))
+      )}
+    </div>
+  ));
+
+  return (
+    <FloatingPanel heightPolicy="min" style={{ width: "300px" }}>
+      <div className="flow-root">
+        <div className="float-left text-3xl mb-2">Regex</div>
+        <button
+          className="float-right"
+          onClick={copyRegex}
+          title="Copy the regular expression"
+        >
+          <span className="text-sky-500 dark:text-sky-200">Copy</span>
+        </button>
+      </div>
+      {!isFiniteAutomaton ? (
+        <InformationBox infoBoxType={InformationBoxType.Warning}>
+          Only finite automata (DFAs and NFAs) can be converted to a regular
+          expression.
+        </InformationBox>
+      ) : hasStartNode ? (
+        <div className="mb-3 font-mono text-lg break-all text-left">
+          {result.regex}
+        </div>
+      ) : (
+        <InformationBox infoBoxType={InformationBoxType.Warning}>
+          The automaton needs a start state before it can be converted.
+        </InformationBox>
+      )}
+      <div className="text-left text-sm mb-1">State elimination steps:</div>
+      <div className="max-h-64 overflow-y-auto">{displayStep}</div>
+    </FloatingPanel>
+  );
+}
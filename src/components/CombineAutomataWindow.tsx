@@ -0,0 +1,137 @@
+import { ChangeEvent, useRef, useState } from "react";
+import StateManager from "../StateManager";
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { ProductOperation } from "../utilities/ProductUtilities";
+import { isValidAutomaton } from "../utilities/ValidationUtilities";
+import { ListItem } from "./ListItem";
+import InformationBox, { InformationBoxType } from "./InformationBox";
+
+interface CombineAutomataWindowProps {
+  close: () => void;
+}
+
+/**
+ * The content for a window that combines the current automaton with a second
+ * automaton loaded from a JSON file, using the product construction to
+ * build a DFA for their union, intersection or difference. The current DFA
+ * can also be replaced with its complement.
+ * @param props
+ * @param {() => void} props.close A function to call to close the window
+ * once the automaton has been replaced.
+ * @returns
+ */
+export default function CombineAutomataWindow(
+  props: CombineAutomataWindowProps,
+) {
+  const [other, setOther] = useState<SerializableAutomaton | null>(null);
+  const [otherName, setOtherName] = useState("");
+  const [operation, setOperation] = useState(ProductOperation.Union);
+  const [errorMessage, setErrorMessage] = useState("");
+  const otherFileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleLoadOtherButtonClick = () => {
+    otherFileInputRef.current?.click();
+  };
+
+  const handleOtherFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const fileName = e.target.files.item(0)?.name ?? "";
+    StateManager.uploadJSON(e)
+      .then((parsedData) => {
+        const automatonCheck = isValidAutomaton(parsedData);
+        if (automatonCheck[0] == false) {
+          setErrorMessage(automatonCheck[1]);
+          return;
+        }
+
+        setOther(parsedData);
+        setOtherName(fileName);
+        setErrorMessage("");
+      })
+      .catch(() => {
+        setErrorMessage("The file does not contain valid JSON.");
+      });
+  };
+
+  const showResult = ([succeeded, message]: [boolean, string]) => {
+    if (succeeded) {
+      props.close();
+    } else {
+      setErrorMessage(message);
+    }
+  };
+
+  const combine = () => {
+    showResult(StateManager.combineWithAutomaton(other, operation));
+  };
+
+  const complement = () => {
+    showResult(StateManager.complementDFA());
+  };
+
+  const loadOtherButton = (
+    <button
+      className="float-right"
+      onClick={handleLoadOtherButtonClick}
+      title="Load the second automaton from JSON"
+    >
+      <span className="text-sky-500 dark:text-sky-200">
+        {other ? otherName || "Loaded" : "Load"}
+      </span>
+    </button>
+  );
+
+  const operationSelector = (
+    <select
+      className="float-right align-bottom bg-transparent text-right"
+      value={operation}
+      onChange={(e) => setOperation(e.target.value as ProductOperation)}
+    >
+      <option value={ProductOperation.Union}>Union</option>
+      <option value={ProductOperation.Intersection}>Intersection</option>
+      <option value={ProductOperation.Difference}>Difference</option>
+    </select>
+  );
+
+  return (
+    <div className="">
+      <div className="mb-3 text-sm">
+        Union accepts strings either automaton accepts, intersection accepts
+        strings both accept, and difference accepts strings the current
+        automaton accepts but the loaded one doesn&apos;t. The current automaton
+        is replaced with the resulting DFA.
+      </div>
+      <input
+        type="file"
+        id="combine-file-uploader"
+        ref={otherFileInputRef}
+        style={{ display: "none" }}
+        onChange={handleOtherFileUpload}
+      />
+      <div className="divide-y mb-3">
+        <ListItem title="Second Automaton" rightContent={loadOtherButton} />
+        <ListItem title="Operation" rightContent={operationSelector} />
+      </div>
+      {errorMessage && (
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          {errorMessage}
+        </InformationBox>
+      )}
+      <div className="flex flex-col">
+        <button
+          className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center disabled:opacity-50"
+          onClick={combine}
+          disabled={other === null}
+        >
+          Combine
+        </button>
+        <button
+          className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
+          onClick={complement}
+          title="Replace the current DFA with one that accepts exactly the strings it rejects"
+        >
+          Complement Current DFA
+        </button>
+      </div>
+    </div>
+  );
+}
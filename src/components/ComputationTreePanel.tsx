@@ -0,0 +1,173 @@
+import { useState } from "react";
+import StateManager from "../StateManager";
+import { AutomatonType } from "../AutomatonType";
+import { useActionStack } from "../utilities/ActionStackUtilities";
+import {
+  ComputationTreeNode,
+  ComputationTreeStatus,
+  DefaultMaxComputationTreeNodes,
+  buildComputationTree,
+} from "../utilities/ComputationTreeUtilities";
+import { TokenizeStatus } from "../utilities/TokenizerUtilities";
+import FloatingPanel from "./FloatingPanel";
+import InformationBox, { InformationBoxType } from "./InformationBox";
+
+/**
+ * A panel that shows the full computation tree of an input string on an NFA
+ * or a PDA. Each node of the tree is a configuration of the machine, and each
+ * edge is labeled with the token consumed (or ε). Configurations that accept
+ * the input are highlighted. Clicking a configuration selects its state on
+ * the canvas. The tree updates whenever the automaton changes.
+ */
+export default function ComputationTreePanel() {
+  // Re-render (and so rebuild the tree) whenever the automaton changes
+  useActionStack();
+
+  const [input, setInput] = useState("");
+  // The tree is rebuilt on every render, so the selected configuration is
+  // remembered by its path from the root (such as "0.1.0")
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const isPDA = StateManager.automatonType === AutomatonType.PDA;
+  const isSupported = isPDA || StateManager.automatonType === AutomatonType.NFA;
+
+  const labelFor = (id: string) =>
+    StateManager.nodeWrappers.find((node) => node.id === id)?.labelText ?? "?";
+  const stackSymbolFor = (id: string) =>
+    StateManager.stackAlphabet.find((tok) => tok.id === id)?.symbol ?? "?";
+
+  const selectTreeNode = (treeNode: ComputationTreeNode, path: string) => {
+    setSelectedPath(path);
+    const node = StateManager.nodeWrappers.find(
+      (node) => node.id === treeNode.state,
+    );
+    if (node) {
+      StateManager.deselectAllObjects();
+      StateManager.selectObject(node);
+    }
+  };
+
+  const renderTreeNode = (treeNode: ComputationTreeNode, path: string) => {
+    const isDeadEnd =
+      treeNode.children.length === 0 &&
+      !treeNode.isAccepting &&
+      !treeNode.isRepeated;
+    return (
+      <div key={path} className="text-left">
+        <button
+          className={`px-1 rounded font-mono text-sm whitespace-nowrap ${
+            treeNode.isAccepting
+              ? "bg-green-200 dark:bg-green-900 font-bold"
+              : ""
+          } ${isDeadEnd || treeNode.isRepeated ? "opacity-50" : ""} ${
+            path === selectedPath ? "ring-2 ring-blue-500" : ""
+          }`}
+          onClick={() => selectTreeNode(treeNode, path)}
+          title={
+            treeNode.isAccepting
+              ? "Accepts the input"
+              : treeNode.isRepeated
+                ? "Repeats a configuration above it, so this branch loops"
+                : isDeadEnd
+                  ? "No moves left, so this branch ends here"
+                  : undefined
+          }
+        >
+          {treeNode.transition !== null && (
+            <span className="text-gray-600 dark:text-gray-300">
+              {treeNode.token ?? "ε"} →{" "}
+            </span>
+          )}
+          {labelFor(treeNode.state)}
+          {treeNode.stack !== null &&
+            ` [${treeNode.stack.map(stackSymbolFor).join("") || "ε"}]`}
+          {treeNode.isRepeated && " ↺"}
+        </button>
+        {treeNode.children.length > 0 && (
+          <div className="ml-2 pl-2 border-l border-gray-500">
+            {treeNode.children.map((child, i) =>
+              renderTreeNode(child, `${path}.${i}`),
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderTree = () => {
+    const tokenized = StateManager.tokenize(input);
+    if (tokenized.status === TokenizeStatus.InvalidTokens) {
+      return (
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          The input contains symbols that aren&apos;t in the alphabet.
+        </InformationBox>
+      );
+    }
+    if (tokenized.status === TokenizeStatus.Ambiguous) {
+      return (
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          The input can&apos;t be split into tokens by longest match. Set a
+          token separator to avoid this.
+        </InformationBox>
+      );
+    }
+
+    const result = buildComputationTree(
+      StateManager.toSerializable(),
+      tokenized.tokens,
+    );
+    if (result.status === ComputationTreeStatus.InvalidMachine) {
+      return (
+        <InformationBox infoBoxType={InformationBoxType.Warning}>
+          The automaton needs a start state before it can be run.
+        </InformationBox>
+      );
+    }
+    if (result.status === ComputationTreeStatus.InvalidInputTokens) {
+      return (
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          The input contains symbols that aren&apos;t in the alphabet.
+        </InformationBox>
+      );
+    }
+
+    return (
+      <>
+        {result.isTruncated && (
+          <InformationBox infoBoxType={InformationBoxType.Warning}>
+            The tree was cut short after {DefaultMaxComputationTreeNodes}{" "}
+            configurations.
+          </InformationBox>
+        )}
+        <div className="overflow-x-auto">
+          {renderTreeNode(result.root, "0")}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <FloatingPanel heightPolicy="min" style={{ width: "300px" }}>
+      <div className="text-3xl mb-2 text-left">Tree</div>
+      {isSupported ? (
+        <>
+          <input
+            className="w-full mb-2 px-2 py-1 rounded bg-white dark:bg-gray-600"
+            type="text"
+            placeholder="Input string"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setSelectedPath(null);
+            }}
+          />
+          {renderTree()}
+        </>
+      ) : (
+        <InformationBox infoBoxType={InformationBoxType.Warning}>
+          Computation trees can only be shown for NFAs and PDAs.
+        </InformationBox>
+      )}
+    </FloatingPanel>
+  );
+}
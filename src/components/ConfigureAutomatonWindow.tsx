@@ -9,9 +9,13 @@ import {
 } from "./ListItem";
 import { BsPlusCircleFill, BsXCircleFill } from "react-icons/bs";
 import { useActionStack } from "../utilities/ActionStackUtilities";
+import { AutomatonType, isTransducerType } from "../AutomatonType";
+import { PDAAcceptanceMode } from "../utilities/PDAUtilities";
+import { MaxTMStepLimit } from "../utilities/TMUtilities";
 
 interface ListItem_TokenEditorProps {
   token: TokenWrapper;
+  onRemove: () => void;
 }
 
 /**
@@ -19,6 +23,8 @@ interface ListItem_TokenEditorProps {
  * edit the token's symbol or remove it from the automaton.
  * @param props
  * @param {TokenWrapper} props.token The token that this list item will edit.
+ * @param {() => void} props.onRemove A function to call to remove the token
+ * from the automaton.
  * @returns
  */
 function ListItem_TokenEditor(
@@ -47,7 +53,6 @@ function ListItem_TokenEditor(
           className="focus:outline-none bg-transparent grow"
           type="text"
           minLength={1}
-          maxLength={1}
           placeholder="Token symbol"
           value={tokenSymbol}
           onChange={(e) => updateTokenSymbol(e.target.value)}
@@ -58,7 +63,7 @@ function ListItem_TokenEditor(
       <CoreListItem_Right>
         <button
           className="flex-0 float-right px-2 block text-center text-red-500 align-middle"
-          onClick={() => StateManager.removeToken(tw)}
+          onClick={props.onRemove}
         >
           <BsXCircleFill />
         </button>
@@ -69,16 +74,27 @@ function ListItem_TokenEditor(
 
 /**
  * The UI with the list of tokens in the current alphabet. An "Add Token"
- * button is included,so the user can add more tokens to the alphabet.
+ * button is included,so the user can add more tokens to the alphabet, along
+ * with a field for adding a whole range of tokens (like `a-z`) at once.
  * @returns
  */
 function AlphabetList() {
   const [alphabet, setAlphabet] = useState(StateManager.alphabet);
+  const [tokenRange, setTokenRange] = useState("");
+  const [tokenRangeError, setTokenRangeError] = useState("");
 
   function addTokenToAlphabet() {
     StateManager.addToken();
   }
 
+  function addTokenRangeToAlphabet() {
+    const [added, message] = StateManager.addTokenRange(tokenRange);
+    setTokenRangeError(message);
+    if (added) {
+      setTokenRange("");
+    }
+  }
+
   // Track the action stack's location so that any undo/redo commands will
   // update the UI to correctly reflect the current state.
   const [_, currentStackLocation] = useActionStack();
@@ -87,7 +103,11 @@ function AlphabetList() {
   }, [currentStackLocation]);
 
   const tokenWrapperElements = alphabet.map((tw) => (
-    <ListItem_TokenEditor token={tw} key={tw.id} />
+    <ListItem_TokenEditor
+      token={tw}
+      key={tw.id}
+      onRemove={() => StateManager.removeToken(tw)}
+    />
   ));
 
   return (
@@ -106,6 +126,101 @@ function AlphabetList() {
             </button>
           </CoreListItem_Left>
         </CoreListItem>
+        <CoreListItem>
+          <CoreListItem_Left>
+            <input
+              className="focus:outline-none bg-transparent grow"
+              type="text"
+              placeholder="Range, e.g. a-z"
+              value={tokenRange}
+              onChange={(e) => {
+                setTokenRange(e.target.value);
+                setTokenRangeError("");
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  addTokenRangeToAlphabet();
+                }
+              }}
+            ></input>
+          </CoreListItem_Left>
+          <CoreListItem_Right>
+            <button
+              className="text-blue-500 dark:text-blue-400 flex flex-row items-center"
+              onClick={addTokenRangeToAlphabet}
+            >
+              <BsPlusCircleFill className="mr-1" />
+              Add Range
+            </button>
+          </CoreListItem_Right>
+        </CoreListItem>
+      </div>
+      {tokenRangeError && (
+        <div className="ml-1 mt-1 text-sm text-red-600 dark:text-red-400">
+          {tokenRangeError}
+        </div>
+      )}
+    </>
+  );
+}
+
+interface SymbolListProps {
+  title: string;
+  addButtonTitle: string;
+  getSymbols: () => Array<TokenWrapper>;
+  addSymbol: () => void;
+  removeSymbol: (symbol: TokenWrapper) => void;
+}
+
+/**
+ * The UI with a list of extra symbols the automaton uses besides its input
+ * alphabet, such as a PDA's stack alphabet or a Turing machine's tape
+ * alphabet. A button is included, so the user can add more symbols.
+ * @param props
+ * @param {string} props.title The title to show above the list.
+ * @param {string} props.addButtonTitle The text of the button that adds a
+ * symbol.
+ * @param {() => Array<TokenWrapper>} props.getSymbols A function that gets
+ * the current list of symbols.
+ * @param {() => void} props.addSymbol A function to call to add a symbol.
+ * @param {(symbol: TokenWrapper) => void} props.removeSymbol A function to
+ * call to remove a symbol.
+ * @returns
+ */
+function SymbolList(props: SymbolListProps) {
+  const [symbols, setSymbols] = useState(props.getSymbols());
+
+  // Track the action stack's location so that any undo/redo commands will
+  // update the UI to correctly reflect the current state.
+  const [, currentStackLocation] = useActionStack();
+  useEffect(() => {
+    setSymbols(props.getSymbols());
+  }, [currentStackLocation]);
+
+  const tokenWrapperElements = symbols.map((tw) => (
+    <ListItem_TokenEditor
+      token={tw}
+      key={tw.id}
+      onRemove={() => props.removeSymbol(tw)}
+    />
+  ));
+
+  return (
+    <>
+      <div className="mt-3 ml-1 mb-1">{props.title}</div>
+      <div className="divide-y">
+        {tokenWrapperElements}
+        <CoreListItem>
+          <CoreListItem_Left>
+            <button
+              className="text-blue-500 dark:text-blue-400 flex flex-row items-center"
+              onClick={props.addSymbol}
+            >
+              <BsPlusCircleFill className="mr-1" />
+              {props.addButtonTitle}
+            </button>
+          </CoreListItem_Left>
+        </CoreListItem>
       </div>
     </>
   );
@@ -113,25 +228,115 @@ function AlphabetList() {
 
 /**
  * The content for a window that allows the user to set information about
- * their automaton that does not fit on the main screen. Currently, this just
- * includes the alphabet.
+ * their automaton that does not fit on the main screen. Currently, this
+ * includes the automaton type, the alphabet and the token separator for test
+ * strings, plus the stack alphabet and
+ * acceptance mode for PDAs, the tape alphabet and step limit for Turing
+ * machines, and the output alphabet for Mealy and Moore machines.
  * @returns
  */
 export default function ConfigureAutomatonWindow() {
-  // NOTE: The "Automaton Type" dropdown doesn't currently do anything in the
-  // actual program. Eventually, it will be used to change how the automaton
-  // is evaluated.
+  const [automatonType, setAutomatonType] = useState(
+    StateManager.automatonType,
+  );
+  const [pdaAcceptance, setPDAAcceptance] = useState(
+    StateManager.pdaAcceptance,
+  );
+  const [tmStepLimit, setTMStepLimit] = useState(
+    StateManager.tmStepLimit.toString(),
+  );
+  const [tokenSeparator, setTokenSeparator] = useState(
+    StateManager.tokenSeparator,
+  );
+
+  // Track the action stack's location so that any undo/redo commands will
+  // update the UI to correctly reflect the current state.
+  const [_, currentStackLocation] = useActionStack();
+  useEffect(() => {
+    setAutomatonType(StateManager.automatonType);
+    setPDAAcceptance(StateManager.pdaAcceptance);
+    setTMStepLimit(StateManager.tmStepLimit.toString());
+    setTokenSeparator(StateManager.tokenSeparator);
+  }, [currentStackLocation]);
+
   const faTypeSelector = (
     <select
       name="automaton-type"
       id="automaton-type"
       className="float-right align-bottom dark:text-black"
+      value={automatonType}
+      onChange={(e) =>
+        StateManager.setAutomatonType(e.target.value as AutomatonType)
+      }
     >
-      <option value="dfa">DFA</option>
-      <option value="nfa">NFA</option>
+      <option value={AutomatonType.DFA}>DFA</option>
+      <option value={AutomatonType.NFA}>NFA</option>
+      <option value={AutomatonType.PDA}>PDA</option>
+      <option value={AutomatonType.TM}>Turing Machine</option>
+      <option value={AutomatonType.Mealy}>Mealy Machine</option>
+      <option value={AutomatonType.Moore}>Moore Machine</option>
     </select>
   );
 
+  const pdaAcceptanceSelector = (
+    <select
+      name="pda-acceptance"
+      id="pda-acceptance"
+      className="float-right align-bottom dark:text-black"
+      value={pdaAcceptance}
+      onChange={(e) =>
+        StateManager.setPDAAcceptance(e.target.value as PDAAcceptanceMode)
+      }
+    >
+      <option value={PDAAcceptanceMode.FinalState}>Final State</option>
+      <option value={PDAAcceptanceMode.EmptyStack}>Empty Stack</option>
+    </select>
+  );
+
+  // The step limit is only applied once the user is done typing it, so that
+  // partial numbers don't end up on the action stack
+  const commitTMStepLimit = () => {
+    StateManager.setTMStepLimit(parseInt(tmStepLimit));
+    setTMStepLimit(StateManager.tmStepLimit.toString());
+  };
+  const tmStepLimitInput = (
+    <input
+      className="float-right align-bottom bg-transparent text-right w-24"
+      type="number"
+      min={1}
+      max={MaxTMStepLimit}
+      value={tmStepLimit}
+      onChange={(e) => setTMStepLimit(e.target.value)}
+      onBlur={commitTMStepLimit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          commitTMStepLimit();
+        }
+      }}
+    ></input>
+  );
+
+  // As with the step limit, the separator is only applied once the user is
+  // done typing it
+  const commitTokenSeparator = () => {
+    StateManager.setTokenSeparator(tokenSeparator);
+  };
+  const tokenSeparatorInput = (
+    <input
+      className="float-right align-bottom bg-transparent text-right w-24"
+      type="text"
+      placeholder="None"
+      value={tokenSeparator}
+      onChange={(e) => setTokenSeparator(e.target.value)}
+      onBlur={commitTokenSeparator}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          commitTokenSeparator();
+        }
+      }}
+    ></input>
+  );
+
   return (
     <div className="">
       <div className="divide-y">
@@ -140,8 +345,54 @@ export default function ConfigureAutomatonWindow() {
           subtitle="An NFA will have fewer requirements than a DFA."
           rightContent={faTypeSelector}
         />
+        {automatonType === AutomatonType.PDA && (
+          <ListItem
+            title="Accept By"
+            subtitle="Whether a PDA accepts in an accept state or with an empty stack."
+            rightContent={pdaAcceptanceSelector}
+          />
+        )}
+        {automatonType === AutomatonType.TM && (
+          <ListItem
+            title="Step Limit"
+            subtitle="Testing a string stops after this many steps."
+            rightContent={tmStepLimitInput}
+          />
+        )}
+        <ListItem
+          title="Token Separator"
+          subtitle="Splits test strings into tokens. Without one, the longest matching token is used."
+          rightContent={tokenSeparatorInput}
+        />
       </div>
       <AlphabetList />
+      {automatonType === AutomatonType.PDA && (
+        <SymbolList
+          title="Stack Alphabet"
+          addButtonTitle="Add Stack Symbol"
+          getSymbols={() => StateManager.stackAlphabet}
+          addSymbol={() => StateManager.addStackSymbol()}
+          removeSymbol={(symbol) => StateManager.removeStackSymbol(symbol)}
+        />
+      )}
+      {automatonType === AutomatonType.TM && (
+        <SymbolList
+          title="Tape Alphabet (besides the input alphabet)"
+          addButtonTitle="Add Tape Symbol"
+          getSymbols={() => StateManager.tapeAlphabet}
+          addSymbol={() => StateManager.addTapeSymbol()}
+          removeSymbol={(symbol) => StateManager.removeTapeSymbol(symbol)}
+        />
+      )}
+      {isTransducerType(automatonType) && (
+        <SymbolList
+          title="Output Alphabet"
+          addButtonTitle="Add Output Symbol"
+          getSymbols={() => StateManager.outputAlphabet}
+          addSymbol={() => StateManager.addOutputSymbol()}
+          removeSymbol={(symbol) => StateManager.removeOutputSymbol(symbol)}
+        />
+      )}
     </div>
   );
 }
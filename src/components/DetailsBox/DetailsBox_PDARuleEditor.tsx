@@ -0,0 +1,249 @@
+import { useState, useEffect } from "react";
+import { BsPlusCircleFill, BsXCircleFill } from "react-icons/bs";
+import StateManager from "../../StateManager";
+import TransitionWrapper, {
+  PDARule,
+  pdaRuleLabel,
+} from "../../TransitionWrapper";
+import TokenWrapper from "../../TokenWrapper";
+import { useActionStack } from "../../utilities/ActionStackUtilities";
+import {
+  CoreListItem,
+  CoreListItem_Left,
+  CoreListItem_Right,
+} from "../ListItem";
+
+interface DetailsBox_PDARuleEditorProps {
+  transition: TransitionWrapper;
+}
+
+interface DetailsBox_PDARuleRowProps {
+  transition: TransitionWrapper;
+  ruleIndex: number;
+}
+
+/**
+ * Splits the text typed for a rule's push field into stack symbols, always
+ * taking the longest symbol that matches next.
+ * @param text The text to split. An empty string or `ε` pushes nothing.
+ * @returns The stack symbols to push, from the top down, or `null` if the
+ * text can't be split into stack symbols.
+ */
+function parsePushSymbols(text: string): Array<TokenWrapper> | null {
+  const trimmed = text.trim();
+  if (trimmed === "" || trimmed === "ε") {
+    return [];
+  }
+
+  const symbols = StateManager.stackAlphabet
+    .filter((tok) => tok.symbol.length > 0)
+    .sort((a, b) => b.symbol.length - a.symbol.length);
+  const result: Array<TokenWrapper> = [];
+  let position = 0;
+  while (position < trimmed.length) {
+    const match = symbols.find((tok) =>
+      trimmed.startsWith(tok.symbol, position),
+    );
+    if (!match) {
+      return null;
+    }
+    result.push(match);
+    position += match.symbol.length;
+  }
+  return result;
+}
+
+/**
+ * Formats the push field of a rule for editing.
+ * @param rule The rule to format.
+ * @returns The symbols to push, concatenated, or `ε` to push nothing.
+ */
+function pushText(rule: PDARule): string {
+  return rule.push.length > 0
+    ? rule.push.map((tok) => tok.symbol).join("")
+    : "ε";
+}
+
+/**
+ * Creates a row for editing a single rule of a PDA transition: the input
+ * token to read, the stack symbol to pop and the stack symbols to push.
+ * @param props
+ * @param {TransitionWrapper} props.transition The transition the rule
+ * belongs to.
+ * @param {number} props.ruleIndex The index of the rule within the
+ * transition's rules.
+ * @returns
+ */
+function DetailsBox_PDARuleRow(props: DetailsBox_PDARuleRowProps) {
+  const transition = props.transition;
+  const rule = transition.pdaRules[props.ruleIndex];
+  const [pushInput, setPushInput] = useState(pushText(rule));
+
+  // Track the action stack's location so that any undo/redo commands will
+  // update the UI to correctly reflect the current state.
+  const [, currentStackLocation] = useActionStack();
+  useEffect(() => {
+    setPushInput(pushText(transition.pdaRules[props.ruleIndex]));
+  }, [currentStackLocation]);
+
+  const updateRule = (newRule: PDARule) => {
+    const newRules = [...transition.pdaRules];
+    newRules[props.ruleIndex] = newRule;
+    StateManager.setTransitionPDARules(
+      transition,
+      newRules,
+      `Change Rule "${pdaRuleLabel(rule)}" to "${pdaRuleLabel(newRule)}"`,
+    );
+  };
+
+  const commitPushInput = () => {
+    const newPush = parsePushSymbols(pushInput);
+    if (newPush === null) {
+      // Text that isn't made of stack symbols is thrown away
+      setPushInput(pushText(rule));
+      return;
+    }
+    const unchanged =
+      newPush.length === rule.push.length &&
+      newPush.every((tok, i) => tok === rule.push[i]);
+    if (unchanged) {
+      setPushInput(pushText(rule));
+      return;
+    }
+    updateRule({ ...rule, push: newPush });
+  };
+
+  const removeRule = () => {
+    StateManager.setTransitionPDARules(
+      transition,
+      transition.pdaRules.filter((existing) => existing !== rule),
+      `Remove Rule "${pdaRuleLabel(rule)}"`,
+    );
+  };
+
+  return (
+    <CoreListItem>
+      <CoreListItem_Left>
+        <select
+          className="bg-transparent"
+          title="Input token to read"
+          value={rule.input?.id ?? ""}
+          onChange={(e) =>
+            updateRule({
+              ...rule,
+              input:
+                StateManager.alphabet.find(
+                  (tok) => tok.id === e.target.value,
+                ) ?? null,
+            })
+          }
+        >
+          <option value="">ε</option>
+          {StateManager.alphabet.map((tok) => (
+            <option key={tok.id} value={tok.id}>
+              {tok.symbol}
+            </option>
+          ))}
+        </select>
+        ,{" "}
+        <select
+          className="bg-transparent"
+          title="Stack symbol to pop"
+          value={rule.pop?.id ?? ""}
+          onChange={(e) =>
+            updateRule({
+              ...rule,
+              pop:
+                StateManager.stackAlphabet.find(
+                  (tok) => tok.id === e.target.value,
+                ) ?? null,
+            })
+          }
+        >
+          <option value="">ε</option>
+          {StateManager.stackAlphabet.map((tok) => (
+            <option key={tok.id} value={tok.id}>
+              {tok.symbol}
+            </option>
+          ))}
+        </select>{" "}
+        /{" "}
+        <input
+          className="focus:outline-none bg-transparent w-16"
+          type="text"
+          title="Stack symbols to push, from the top down"
+          value={pushInput}
+          onChange={(e) => setPushInput(e.target.value)}
+          onBlur={commitPushInput}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              commitPushInput();
+            }
+          }}
+        ></input>
+      </CoreListItem_Left>
+      <CoreListItem_Right>
+        <button
+          className="flex-0 float-right px-2 block text-center text-red-500 align-middle"
+          onClick={removeRule}
+          title="Remove this rule"
+        >
+          <BsXCircleFill />
+        </button>
+      </CoreListItem_Right>
+    </CoreListItem>
+  );
+}
+
+/**
+ * Creates the UI for editing the rules of a PDA transition. Each rule reads
+ * an input token (or ε), pops a stack symbol (or nothing) and pushes a
+ * string of stack symbols.
+ * @param props
+ * @param {TransitionWrapper} props.transition The transition that this editor
+ * will modify.
+ * @returns
+ */
+export default function DetailsBox_PDARuleEditor(
+  props: DetailsBox_PDARuleEditorProps,
+) {
+  const transition = props.transition;
+
+  // Re-render whenever the automaton changes, so the rules stay up to date
+  useActionStack();
+
+  const addRule = () => {
+    const newRule: PDARule = { input: null, pop: null, push: [] };
+    StateManager.setTransitionPDARules(
+      transition,
+      [...transition.pdaRules, newRule],
+      `Add Rule "${pdaRuleLabel(newRule)}"`,
+    );
+  };
+
+  return (
+    <>
+      <div className="mt-3 ml-1 mb-1 text-left">Rules (read, pop / push)</div>
+      <div className="divide-y mb-3">
+        {transition.pdaRules.map((rule, i) => (
+          <DetailsBox_PDARuleRow
+            key={`${i}-${pdaRuleLabel(rule)}`}
+            transition={transition}
+            ruleIndex={i}
+          />
+        ))}
+        <CoreListItem>
+          <CoreListItem_Left>
+            <button
+              className="text-blue-500 dark:text-blue-400 flex flex-row items-center"
+              onClick={addRule}
+            >
+              <BsPlusCircleFill className="mr-1" />
+              Add Rule
+            </button>
+          </CoreListItem_Left>
+        </CoreListItem>
+      </div>
+    </>
+  );
+}
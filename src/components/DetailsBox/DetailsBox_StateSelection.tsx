@@ -4,6 +4,7 @@ import SelectableObject from "../../SelectableObject";
 import StateManager from "../../StateManager";
 import { useActionStack } from "../../utilities/ActionStackUtilities";
 import { CoreListItem, CoreListItem_Left, ListItem } from "../ListItem";
+import { AutomatonType } from "../../AutomatonType";
 
 interface DetailsBox_StateSelectionProps {
   nodeWrappers: NodeWrapper[];
@@ -13,7 +14,8 @@ interface DetailsBox_StateSelectionProps {
 
 /**
  * Creates the UI for modifying one or more nodes, including its label, whether it is an
- * accepting node, and whether it is the designated start node.
+ * accepting node (or, for Turing machines, a reject node), what it outputs in a Moore
+ * machine, and whether it is the designated start node.
  * @param props
  * @param {NodeWrapper} props.nodeWrapper The node that this editor will modify.
  * @param {NodeWrapper} props.startNode The node currently marked as the start node.
@@ -36,6 +38,11 @@ export default function DetailsBox_StateSelection(
   const [isAccept, setIsAccept] = useState(
     noneAccept ? false : allAccept || undefined,
   );
+  const allReject = nodeWrappers.every((node) => node.isRejectNode);
+  const noneReject = nodeWrappers.every((node) => !node.isRejectNode);
+  const [isReject, setIsReject] = useState(
+    noneReject ? false : allReject || undefined,
+  );
   const [isStartNodeInternal, setIsStartNodeInternal] = useState(
     StateManager.startNode === nw1,
   );
@@ -50,10 +57,16 @@ export default function DetailsBox_StateSelection(
     StateManager.setNodesIsAccept(nodeWrappers, isAccept);
   };
 
+  const updateNodeIsReject = (isReject: boolean) => {
+    setIsReject(isReject);
+    StateManager.setNodesIsReject(nodeWrappers, isReject);
+  };
+
   const [_, currentStackLocation] = useActionStack();
   useEffect(() => {
     setLabelText(nw1.labelText);
     setIsAccept(noneAccept ? false : allAccept || undefined);
+    setIsReject(noneReject ? false : allReject || undefined);
     setIsStartNodeInternal(StateManager.startNode === nw1);
   }, [currentStackLocation]);
 
@@ -80,6 +93,52 @@ export default function DetailsBox_StateSelection(
       onChange={(e) => updateNodeIsAccept(e.target.checked)}
     ></input>
   );
+  const nodeRejectInput = (
+    <input
+      type="checkbox"
+      id="is-reject-state"
+      name="is-reject-state"
+      checked={isReject}
+      ref={(input) => {
+        if (input) {
+          input.indeterminate = isReject === undefined;
+        }
+      }}
+      onChange={(e) => updateNodeIsReject(e.target.checked)}
+    ></input>
+  );
+
+  // Selected nodes with different outputs show a placeholder instead
+  const sharedOutput = nodeWrappers.every((node) => node.output === nw1.output)
+    ? (nw1.output?.id ?? "")
+    : "mixed";
+  const nodeOutputInput = (
+    <select
+      className="bg-transparent text-right"
+      title="Symbol output when entering this state"
+      value={sharedOutput}
+      onChange={(e) =>
+        StateManager.setNodesOutput(
+          nodeWrappers,
+          StateManager.outputAlphabet.find(
+            (tok) => tok.id === e.target.value,
+          ) ?? null,
+        )
+      }
+    >
+      {sharedOutput === "mixed" && (
+        <option value="mixed" disabled>
+          —
+        </option>
+      )}
+      <option value="">ε</option>
+      {StateManager.outputAlphabet.map((tok) => (
+        <option key={tok.id} value={tok.id}>
+          {tok.symbol}
+        </option>
+      ))}
+    </select>
+  );
 
   let startStateClasses = `${isStartNodeInternal ? "text-gray-700 dark:text-gray-300" : "text-blue-500 dark:text-blue-400 "} flex flex-row items-center`;
   return (
@@ -90,6 +149,12 @@ export default function DetailsBox_StateSelection(
           <ListItem title="Name" rightContent={nodeNameInput} />
         )}
         <ListItem title="Accepts" rightContent={nodeAcceptInput} />
+        {StateManager.automatonType === AutomatonType.TM && (
+          <ListItem title="Rejects" rightContent={nodeRejectInput} />
+        )}
+        {StateManager.automatonType === AutomatonType.Moore && (
+          <ListItem title="Output" rightContent={nodeOutputInput} />
+        )}
       </div>
       {!isMultiSelection && (
         <div className="divide-y mb-3">
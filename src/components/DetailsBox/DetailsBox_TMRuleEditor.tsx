@@ -0,0 +1,160 @@
+import { BsPlusCircleFill, BsXCircleFill } from "react-icons/bs";
+import StateManager from "../../StateManager";
+import TransitionWrapper, {
+  TMRule,
+  tmRuleLabel,
+} from "../../TransitionWrapper";
+import TokenWrapper from "../../TokenWrapper";
+import { useActionStack } from "../../utilities/ActionStackUtilities";
+import { BlankSymbol, TMMove } from "../../utilities/TMUtilities";
+import {
+  CoreListItem,
+  CoreListItem_Left,
+  CoreListItem_Right,
+} from "../ListItem";
+
+interface DetailsBox_TMRuleEditorProps {
+  transition: TransitionWrapper;
+}
+
+interface DetailsBox_TMSymbolSelectProps {
+  title: string;
+  value: TokenWrapper | null;
+  onChange: (symbol: TokenWrapper | null) => void;
+}
+
+/**
+ * Creates a drop-down for picking a tape symbol: the blank symbol, or any
+ * symbol from the input alphabet or the tape alphabet.
+ * @param props
+ * @param {string} props.title The tooltip for the drop-down.
+ * @param {TokenWrapper | null} props.value The symbol currently picked, or
+ * `null` for the blank symbol.
+ * @param {(symbol: TokenWrapper | null) => void} props.onChange A function
+ * to call with the newly picked symbol.
+ * @returns
+ */
+function DetailsBox_TMSymbolSelect(props: DetailsBox_TMSymbolSelectProps) {
+  const tapeSymbols = [...StateManager.alphabet, ...StateManager.tapeAlphabet];
+  return (
+    <select
+      className="bg-transparent"
+      title={props.title}
+      value={props.value?.id ?? ""}
+      onChange={(e) =>
+        props.onChange(
+          tapeSymbols.find((tok) => tok.id === e.target.value) ?? null,
+        )
+      }
+    >
+      <option value="">{BlankSymbol}</option>
+      {tapeSymbols.map((tok) => (
+        <option key={tok.id} value={tok.id}>
+          {tok.symbol}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Creates the UI for editing the rules of a Turing machine transition. Each
+ * rule reads a tape symbol, writes a tape symbol and moves the head.
+ * @param props
+ * @param {TransitionWrapper} props.transition The transition that this editor
+ * will modify.
+ * @returns
+ */
+export default function DetailsBox_TMRuleEditor(
+  props: DetailsBox_TMRuleEditorProps,
+) {
+  const transition = props.transition;
+
+  // Re-render whenever the automaton changes, so the rules stay up to date
+  useActionStack();
+
+  const updateRule = (oldRule: TMRule, newRule: TMRule) => {
+    StateManager.setTransitionTMRules(
+      transition,
+      transition.tmRules.map((rule) => (rule === oldRule ? newRule : rule)),
+      `Change Rule "${tmRuleLabel(oldRule)}" to "${tmRuleLabel(newRule)}"`,
+    );
+  };
+
+  const removeRule = (oldRule: TMRule) => {
+    StateManager.setTransitionTMRules(
+      transition,
+      transition.tmRules.filter((rule) => rule !== oldRule),
+      `Remove Rule "${tmRuleLabel(oldRule)}"`,
+    );
+  };
+
+  const addRule = () => {
+    const newRule: TMRule = { read: null, write: null, move: TMMove.Right };
+    StateManager.setTransitionTMRules(
+      transition,
+      [...transition.tmRules, newRule],
+      `Add Rule "${tmRuleLabel(newRule)}"`,
+    );
+  };
+
+  return (
+    <>
+      <div className="mt-3 ml-1 mb-1 text-left">Rules (read → write, move)</div>
+      <div className="divide-y mb-3">
+        {transition.tmRules.map((rule, i) => (
+          <CoreListItem key={`${i}-${tmRuleLabel(rule)}`}>
+            <CoreListItem_Left>
+              <DetailsBox_TMSymbolSelect
+                title="Symbol to read"
+                value={rule.read}
+                onChange={(read) => updateRule(rule, { ...rule, read: read })}
+              />{" "}
+              →{" "}
+              <DetailsBox_TMSymbolSelect
+                title="Symbol to write"
+                value={rule.write}
+                onChange={(write) =>
+                  updateRule(rule, { ...rule, write: write })
+                }
+              />
+              ,{" "}
+              <select
+                className="bg-transparent"
+                title="Direction to move the head"
+                value={rule.move}
+                onChange={(e) =>
+                  updateRule(rule, { ...rule, move: e.target.value as TMMove })
+                }
+              >
+                <option value={TMMove.Left}>L</option>
+                <option value={TMMove.Right}>R</option>
+                <option value={TMMove.Stay}>S</option>
+              </select>
+            </CoreListItem_Left>
+            <CoreListItem_Right>
+              <button
+                className="flex-0 float-right px-2 block text-center text-red-500 align-middle"
+                onClick={() => removeRule(rule)}
+                title="Remove this rule"
+              >
+                <BsXCircleFill />
+              </button>
+            </CoreListItem_Right>
+          </CoreListItem>
+        ))}
+        <CoreListItem>
+          <CoreListItem_Left>
+            <button
+              className="text-blue-500 dark:text-blue-400 flex flex-row items-center"
+              onClick={addRule}
+            >
+              <BsPlusCircleFill className="mr-1" />
+              Add Rule
+            </button>
+          </CoreListItem_Left>
+        </CoreListItem>
+      </div>
+    </>
+  );
+}
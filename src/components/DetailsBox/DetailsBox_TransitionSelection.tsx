@@ -4,6 +4,22 @@ import TransitionWrapper from "../../TransitionWrapper";
 import TokenWrapper from "../../TokenWrapper";
 import { useActionStack } from "../../utilities/ActionStackUtilities";
 import { ListItem } from "../ListItem";
+import { AutomatonType } from "../../AutomatonType";
+import DetailsBox_PDARuleEditor from "./DetailsBox_PDARuleEditor";
+import DetailsBox_TMRuleEditor from "./DetailsBox_TMRuleEditor";
+import { TokenSelectorKind } from "../../utilities/TokenSelectorUtilities";
+
+/**
+ * The value of the token selector drop-down when a transition's tokens are
+ * listed one by one.
+ */
+const ListedTokens = "listed";
+
+/**
+ * The value of the token selector drop-down when the selected transitions
+ * pick their tokens in different ways.
+ */
+const MixedSelectors = "mixed";
 
 interface DetailsBox_TransitionSelectionProps {
   transitions: TransitionWrapper[];
@@ -17,7 +33,8 @@ interface DetailsBox_TransitionTokenCheckBoxProps {
 /**
  * Creates a list item representing a single token's relationship to the given
  * transition(s). If the checkbox is checked, then the transition(s) will accept the
- * token.
+ * token. In a Mealy machine, a single transition that accepts the token also
+ * gets a drop-down for the symbol it outputs on that token.
  * @param props
  * @param {TransitionWrapper[]} props.transitions The transition(s) that this list
  * item corresponds to.
@@ -73,11 +90,89 @@ function DetailsBox_TransitionTokenCheckBox(
     ></input>
   );
 
+  const showOutputSelect =
+    StateManager.automatonType === AutomatonType.Mealy &&
+    transitions.length === 1 &&
+    tokenIsIncluded === true;
+  const outputSelect = showOutputSelect && (
+    <select
+      className="bg-transparent mr-2"
+      title={`Symbol output on "${token.symbol}"`}
+      value={transitions[0].outputFor(token)?.id ?? ""}
+      onChange={(e) =>
+        StateManager.setTransitionOutput(
+          transitions[0],
+          token,
+          StateManager.outputAlphabet.find(
+            (tok) => tok.id === e.target.value,
+          ) ?? null,
+        )
+      }
+    >
+      <option value="">ε</option>
+      {StateManager.outputAlphabet.map((tok) => (
+        <option key={tok.id} value={tok.id}>
+          {tok.symbol}
+        </option>
+      ))}
+    </select>
+  );
+
   return (
     <ListItem
       key={token.id}
       title={token.symbol}
-      rightContent={transitionUseTokenInput}
+      rightContent={
+        <>
+          {outputSelect}
+          {transitionUseTokenInput}
+        </>
+      }
+    />
+  );
+}
+
+interface DetailsBox_ExceptTokenCheckBoxProps {
+  transition: TransitionWrapper;
+  token: TokenWrapper;
+}
+
+/**
+ * Creates a list item for whether a single token is left out of a transition
+ * that accepts any token except some. If the checkbox is checked, then the
+ * transition won't accept the token.
+ * @param props
+ * @param {TransitionWrapper} props.transition The transition that this list
+ * item corresponds to. It must have an `AnyExcept` token selector.
+ * @param {TokenWrapper} props.token The token that this list item corresponds to.
+ * @returns
+ */
+function DetailsBox_ExceptTokenCheckBox(
+  props: DetailsBox_ExceptTokenCheckBoxProps,
+) {
+  const { transition, token } = props;
+  const selector = transition.tokenSelector;
+  const isExcepted = selector.except.includes(token);
+
+  const updateIsExcepted = (excepted: boolean) => {
+    StateManager.setTransitionTokenSelector(transition, {
+      ...selector,
+      except: excepted
+        ? [...selector.except, token]
+        : selector.except.filter((tok) => tok !== token),
+    });
+  };
+
+  return (
+    <ListItem
+      title={token.symbol}
+      rightContent={
+        <input
+          type="checkbox"
+          checked={isExcepted}
+          onChange={(e) => updateIsExcepted(e.target.checked)}
+        ></input>
+      }
     />
   );
 }
@@ -144,6 +239,96 @@ export default function DetailsBox_TransitionSelection(
     setEpsilonTransition(noneEpsilon ? false : allEpsilon || undefined);
   }, [currentStackLocation]);
 
+  // PDA and Turing machine transitions have rules instead of tokens
+  const hasRules =
+    StateManager.automatonType === AutomatonType.PDA ||
+    StateManager.automatonType === AutomatonType.TM;
+
+  // Transitions can list their tokens one by one, or pick them with a token
+  // selector
+  const selectorKinds = tws.map((t) => t.tokenSelector?.kind ?? ListedTokens);
+  const sharedSelectorKind = selectorKinds.every(
+    (kind) => kind === selectorKinds[0],
+  )
+    ? selectorKinds[0]
+    : MixedSelectors;
+  const updateSelectorKind = (kind: string) => {
+    tws.forEach((t) => {
+      if ((t.tokenSelector?.kind ?? ListedTokens) === kind) return;
+      StateManager.setTransitionTokenSelector(
+        t,
+        kind === ListedTokens
+          ? null
+          : { kind: kind as TokenSelectorKind, except: [] },
+      );
+    });
+  };
+  const tokenSelectorInput = (
+    <select
+      className="bg-transparent text-right"
+      value={sharedSelectorKind}
+      onChange={(e) => updateSelectorKind(e.target.value)}
+    >
+      {sharedSelectorKind === MixedSelectors && (
+        <option value={MixedSelectors} disabled>
+          —
+        </option>
+      )}
+      <option value={ListedTokens}>Listed tokens</option>
+      <option value={TokenSelectorKind.AllOther}>All other tokens</option>
+      <option value={TokenSelectorKind.AnyExcept}>Any token except</option>
+    </select>
+  );
+
+  let tokenList: JSX.Element;
+  if (sharedSelectorKind === ListedTokens) {
+    tokenList = (
+      <>
+        <div className="mt-3 ml-1 mb-1 text-left">Accepted Tokens</div>
+        <div className="divide-y mb-3">
+          {StateManager.alphabet.map((token) => (
+            <DetailsBox_TransitionTokenCheckBox
+              transitions={tws}
+              token={token}
+            />
+          ))}
+        </div>
+      </>
+    );
+  } else if (sharedSelectorKind === TokenSelectorKind.AnyExcept) {
+    tokenList = isMultiSelection ? (
+      <div className="mt-3 ml-1 mb-1 text-left text-sm">
+        Select a single transition to choose the tokens it leaves out.
+      </div>
+    ) : (
+      <>
+        <div className="mt-3 ml-1 mb-1 text-left">Except Tokens</div>
+        <div className="divide-y mb-3">
+          {StateManager.alphabet.map((token) => (
+            <DetailsBox_ExceptTokenCheckBox
+              key={token.id}
+              transition={tws[0]}
+              token={token}
+            />
+          ))}
+        </div>
+      </>
+    );
+  } else if (sharedSelectorKind === TokenSelectorKind.AllOther) {
+    tokenList = (
+      <div className="mt-3 ml-1 mb-1 text-left text-sm">
+        Accepts every token that no other transition out of the same state
+        accepts.
+      </div>
+    );
+  } else {
+    tokenList = (
+      <div className="mt-3 ml-1 mb-1 text-left text-sm">
+        The selected transitions pick their tokens in different ways.
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col">
       <div className="font-medium text-2xl">
@@ -154,13 +339,25 @@ export default function DetailsBox_TransitionSelection(
           {srcNode.labelText} to {dstNode.labelText}
         </div>
       )}
-      <div className="mt-3 ml-1 mb-1 text-left">Accepted Tokens</div>
-      <div className="divide-y mb-3">
-        <ListItem title="ε" rightContent={transitionUseEpsilonInput} />
-        {StateManager.alphabet.map((token) => (
-          <DetailsBox_TransitionTokenCheckBox transitions={tws} token={token} />
-        ))}
-      </div>
+      {hasRules ? (
+        isMultiSelection ? (
+          <div className="mt-3 ml-1 mb-1 text-left text-sm">
+            Select a single transition to edit its rules.
+          </div>
+        ) : StateManager.automatonType === AutomatonType.PDA ? (
+          <DetailsBox_PDARuleEditor transition={tws[0]} />
+        ) : (
+          <DetailsBox_TMRuleEditor transition={tws[0]} />
+        )
+      ) : (
+        <>
+          <div className="divide-y mt-3">
+            <ListItem title="Accepts" rightContent={tokenSelectorInput} />
+            <ListItem title="ε" rightContent={transitionUseEpsilonInput} />
+          </div>
+          {tokenList}
+        </>
+      )}
     </div>
   );
 }
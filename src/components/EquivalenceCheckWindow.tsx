@@ -0,0 +1,214 @@
+import { ChangeEvent, useMemo, useRef, useState } from "react";
+import StateManager from "../StateManager";
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { AutomatonType, isFiniteAutomatonType } from "../AutomatonType";
+import { useActionStack } from "../utilities/ActionStackUtilities";
+import {
+  Counterexample,
+  findCounterexample,
+} from "../utilities/ProductUtilities";
+import { isValidAutomaton } from "../utilities/ValidationUtilities";
+import { toAutomatonKitDFA } from "../utilities/AutomatonRunUtilities";
+import { expandTokenSelectors } from "../utilities/TokenSelectorUtilities";
+import { joinTokens } from "../utilities/TokenizerUtilities";
+import InformationBox, { InformationBoxType } from "./InformationBox";
+
+/** The outcome of comparing the current automaton against the reference. */
+interface EquivalenceResult {
+  /**
+   * Why the automata couldn't be compared, such as one of them being an
+   * invalid DFA, or `null` if they were compared.
+   */
+  error: string | null;
+
+  /**
+   * A shortest string accepted by exactly one of the automata, or `null` if
+   * they accept the same language (or couldn't be compared).
+   */
+  counterexample: Counterexample | null;
+}
+
+/**
+ * Finds why an automaton can't be run as a DFA, if it is meant to be one.
+ * Running tests on such an automaton reports it as an invalid DFA, so it
+ * isn't compared as though it were an NFA either.
+ * @param {SerializableAutomaton} automaton The automaton to check.
+ * @returns {string | null} The first of the automaton's DFA errors, or
+ * `null` if it is an NFA or a valid DFA.
+ */
+function dfaErrorOf(automaton: SerializableAutomaton): string | null {
+  if ((automaton.type ?? AutomatonType.DFA) !== AutomatonType.DFA) {
+    return null;
+  }
+  const errors = toAutomatonKitDFA(automaton).getErrors();
+  return errors.length > 0 ? errors[0].errorString() : null;
+}
+
+/**
+ * The content for a window that compares the current automaton against a
+ * reference automaton loaded from a JSON file, and reports whether they
+ * accept the same language. If they don't, a shortest string that only one
+ * of them accepts is shown. The result updates whenever the current
+ * automaton changes.
+ */
+export default function EquivalenceCheckWindow() {
+  const [reference, setReference] = useState<SerializableAutomaton | null>(
+    null,
+  );
+  const [referenceName, setReferenceName] = useState("");
+  const [errorMessage, setErrorMessage] = useState("");
+  const referenceFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Re-render whenever the automaton changes
+  const [currentStack, currentStackLocation] = useActionStack();
+  const automatonType = StateManager.automatonType;
+  const referenceType = reference?.type ?? AutomatonType.DFA;
+  const isComparable =
+    isFiniteAutomatonType(automatonType) &&
+    isFiniteAutomatonType(referenceType);
+
+  // The product construction can explore every pair of states, so the
+  // comparison is only redone when the automaton or the reference changes
+  const equivalence = useMemo((): EquivalenceResult | null => {
+    if (!reference || !isComparable) {
+      return null;
+    }
+    const automaton = StateManager.toSerializable();
+    const automatonError = dfaErrorOf(automaton);
+    if (automatonError !== null) {
+      return {
+        error: `This automaton is not a valid DFA. ${automatonError}`,
+        counterexample: null,
+      };
+    }
+    const referenceError = dfaErrorOf(reference);
+    if (referenceError !== null) {
+      return {
+        error: `The reference is not a valid DFA. ${referenceError}`,
+        counterexample: null,
+      };
+    }
+    return {
+      error: null,
+      counterexample: findCounterexample(automaton, reference),
+    };
+  }, [
+    currentStack,
+    currentStackLocation,
+    automatonType,
+    isComparable,
+    reference,
+  ]);
+
+  const handleLoadReferenceButtonClick = () => {
+    referenceFileInputRef.current?.click();
+  };
+
+  const handleReferenceFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const fileName = e.target.files.item(0)?.name ?? "";
+    StateManager.uploadJSON(e)
+      .then((parsedData) => {
+        const automatonCheck = isValidAutomaton(parsedData);
+        if (automatonCheck[0] == false) {
+          setErrorMessage(automatonCheck[1]);
+          return;
+        }
+
+        // The comparison only looks at the tokens of each transition, so
+        // token selectors are filled in
+        setReference(expandTokenSelectors(parsedData));
+        setReferenceName(fileName);
+        setErrorMessage("");
+      })
+      .catch(() => {
+        setErrorMessage("The file does not contain valid JSON.");
+      });
+  };
+
+  let result = null;
+  if (!isComparable) {
+    result = (
+      <InformationBox infoBoxType={InformationBoxType.Warning}>
+        Only finite automata (DFAs and NFAs) can be checked for equivalence.
+      </InformationBox>
+    );
+  } else if (equivalence?.error) {
+    result = (
+      <InformationBox infoBoxType={InformationBoxType.Error}>
+        {equivalence.error}
+      </InformationBox>
+    );
+  } else if (equivalence) {
+    const counterexample = equivalence.counterexample;
+    if (counterexample === null) {
+      result = (
+        <InformationBox infoBoxType={InformationBoxType.Success}>
+          Equivalent: this automaton accepts the same language as the reference.
+        </InformationBox>
+      );
+    } else {
+      // Written the way it would be typed as a test string, unless that
+      // would read as different tokens (like "a" then "b", and "ab")
+      const testString = joinTokens(
+        counterexample.input,
+        StateManager.alphabet.map((tok) => tok.symbol),
+        StateManager.tokenSeparator,
+      );
+      let inputString: string;
+      if (counterexample.input.length === 0) {
+        inputString = "ε (the empty string)";
+      } else if (testString !== null) {
+        inputString = `"${testString}"`;
+      } else {
+        inputString = counterexample.input
+          .map((symbol) => `"${symbol}"`)
+          .join(" then ");
+      }
+      result = (
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          Not equivalent: {inputString} is accepted by{" "}
+          {counterexample.acceptedByFirst
+            ? "this automaton but not by the reference"
+            : "the reference but not by this automaton"}
+          .
+        </InformationBox>
+      );
+    }
+  }
+
+  return (
+    <div className="">
+      <div className="mb-3 text-sm">
+        Load a reference automaton to check whether the current automaton
+        accepts exactly the same strings.
+        {referenceName && (
+          <>
+            <br />
+            Reference: {referenceName}
+          </>
+        )}
+      </div>
+      <input
+        type="file"
+        id="reference-file-uploader"
+        ref={referenceFileInputRef}
+        style={{ display: "none" }}
+        onChange={handleReferenceFileUpload}
+      />
+      {errorMessage && (
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          {errorMessage}
+        </InformationBox>
+      )}
+      {result}
+      <div className="flex flex-col">
+        <button
+          className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
+          onClick={handleLoadReferenceButtonClick}
+        >
+          {reference ? "Load Another Reference" : "Load Reference Automaton"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { ChangeEvent, useRef, useState } from "react";
+import StateManager from "../StateManager";
+import { TestCase } from "../utilities/TestUtilities";
+import { downloadTextFile } from "../utilities/DownloadUtilities";
+import {
+  SubmissionGrade,
+  gradeSubmission,
+  gradesToCSV,
+  gradesToJSON,
+} from "../utilities/GradingUtilities";
+import InformationBox, { InformationBoxType } from "./InformationBox";
+
+/**
+ * The content for a window that grades many automaton files at once, such as
+ * student submissions. Each file is checked to be a valid automaton, and then
+ * every test in the Tests panel is run on it. The files are only run, so the
+ * automaton being edited isn't changed. The results are shown in a
+ * scoreboard, which can be downloaded.
+ */
+export default function GradingWindow() {
+  const [grades, setGrades] = useState<Array<SubmissionGrade>>([]);
+  // The tests the files were graded with, in case the tests change afterwards
+  const [gradedTests, setGradedTests] = useState<Array<TestCase>>([]);
+  const [errorMessage, setErrorMessage] = useState("");
+  const submissionsFileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleLoadSubmissionsButtonClick = () => {
+    if (StateManager.tests.length === 0) {
+      setErrorMessage(
+        "There are no tests to grade with. Add or load tests in the Tests panel first.",
+      );
+      return;
+    }
+    submissionsFileInputRef.current?.click();
+  };
+
+  const handleSubmissionsFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files);
+    e.target.value = null;
+    const tests = StateManager.tests;
+
+    Promise.all(
+      files.map((file) =>
+        file.text().then(
+          (text): SubmissionGrade => {
+            let json: unknown;
+            try {
+              json = JSON.parse(text);
+            } catch {
+              return {
+                fileName: file.name,
+                error: "The file does not contain valid JSON.",
+                passed: 0,
+                total: tests.length,
+                results: [],
+              };
+            }
+            return gradeSubmission(file.name, json, tests);
+          },
+          (): SubmissionGrade => ({
+            fileName: file.name,
+            error: "The file could not be read.",
+            passed: 0,
+            total: tests.length,
+            results: [],
+          }),
+        ),
+      ),
+    )
+      .then((newGrades) => {
+        setGrades(newGrades);
+        setGradedTests(tests);
+        setErrorMessage("");
+      })
+      .catch((e) => {
+        setErrorMessage(`The submissions could not be graded. ${e.message}`);
+      });
+  };
+
+  const handleDownloadScoreboardClick = () => {
+    downloadTextFile(
+      gradesToCSV(grades, gradedTests),
+      "scoreboard.csv",
+      "text/csv",
+    );
+  };
+
+  const handleDownloadDetailsClick = () => {
+    downloadTextFile(gradesToJSON(grades), "grades.json", "application/json");
+  };
+
+  return (
+    <div className="">
+      <div className="mb-3 text-sm">
+        Load automaton files to run every test in the Tests panel on each of
+        them. The automaton you&apos;re editing isn&apos;t changed.
+      </div>
+      <input
+        type="file"
+        id="submissions-file-uploader"
+        ref={submissionsFileInputRef}
+        style={{ display: "none" }}
+        multiple
+        onChange={handleSubmissionsFileUpload}
+      />
+      {errorMessage && (
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          {errorMessage}
+        </InformationBox>
+      )}
+      {grades.length > 0 && (
+        <div className="max-h-96 overflow-y-auto mb-2">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="px-2">File</th>
+                <th className="px-2">Passed</th>
+                <th className="px-2">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {grades.map((grade, i) => (
+                <tr
+                  key={i}
+                  className={`text-left ${
+                    grade.error === null && grade.passed === grade.total
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-red-600 dark:text-red-400"
+                  }`}
+                  title={grade.error ?? undefined}
+                >
+                  <td className="px-2 font-mono">{grade.fileName}</td>
+                  <td className="px-2">
+                    {grade.error === null
+                      ? `${grade.passed}/${grade.total}`
+                      : "Invalid"}
+                  </td>
+                  <td className="px-2">
+                    {grade.total > 0
+                      ? `${Math.round((grade.passed / grade.total) * 100)}%`
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="flex flex-col">
+        <button
+          className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
+          onClick={handleLoadSubmissionsButtonClick}
+        >
+          {grades.length > 0 ? "Grade Other Files" : "Load Automaton Files"}
+        </button>
+        {grades.length > 0 && (
+          <>
+            <button
+              className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
+              onClick={handleDownloadScoreboardClick}
+            >
+              Download Scoreboard (CSV)
+            </button>
+            <button
+              className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
+              onClick={handleDownloadDetailsClick}
+            >
+              Download Detailed Results (JSON)
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
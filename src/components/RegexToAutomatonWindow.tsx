@@ -0,0 +1,111 @@
+import { useState } from "react";
+import StateManager from "../StateManager";
+import { ListItem } from "./ListItem";
+import InformationBox, { InformationBoxType } from "./InformationBox";
+
+interface RegexToAutomatonWindowProps {
+  close: () => void;
+}
+
+/**
+ * The content for a window that lets the user type a regular expression over
+ * the current alphabet and replace the automaton with one that accepts the
+ * same language.
+ * @param props
+ * @param {() => void} props.close A function to call to close the window
+ * once the automaton has been built.
+ * @returns
+ */
+export default function RegexToAutomatonWindow(
+  props: RegexToAutomatonWindowProps,
+) {
+  const [regex, setRegex] = useState("");
+  const [determinize, setDeterminize] = useState(false);
+  const [minimize, setMinimize] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const alphabetSymbols = StateManager.alphabet.map((tok) => tok.symbol);
+
+  const buildAutomaton = () => {
+    const [built, message] = StateManager.buildAutomatonFromRegex(
+      regex,
+      determinize,
+      determinize && minimize,
+    );
+    if (built) {
+      props.close();
+    } else {
+      setErrorMessage(message);
+    }
+  };
+
+  const regexInput = (
+    <input
+      className="float-right align-bottom bg-transparent text-right"
+      type="text"
+      placeholder="e.g. (a|b)*abb"
+      value={regex}
+      onChange={(e) => {
+        setRegex(e.target.value);
+        setErrorMessage("");
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          buildAutomaton();
+        }
+      }}
+    ></input>
+  );
+
+  const determinizeInput = (
+    <input
+      type="checkbox"
+      checked={determinize}
+      onChange={(e) => setDeterminize(e.target.checked)}
+    ></input>
+  );
+
+  const minimizeInput = (
+    <input
+      type="checkbox"
+      checked={determinize && minimize}
+      disabled={!determinize}
+      onChange={(e) => setMinimize(e.target.checked)}
+    ></input>
+  );
+
+  return (
+    <div className="">
+      <div className="mb-3 text-sm">
+        Alphabet:{" "}
+        {alphabetSymbols.length > 0 ? alphabetSymbols.join(", ") : "(empty)"}
+        <br />
+        Use | for &quot;or&quot;, *, + and ? for repetition, parentheses for
+        grouping, and ε for the empty string. This replaces the current
+        automaton.
+      </div>
+      <div className="divide-y mb-3">
+        <ListItem title="Expression" rightContent={regexInput} />
+        <ListItem
+          title="Convert to DFA"
+          subtitle="Otherwise, the NFA from Thompson's construction is kept."
+          rightContent={determinizeInput}
+        />
+        <ListItem title="Minimize DFA" rightContent={minimizeInput} />
+      </div>
+      {errorMessage && (
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          {errorMessage}
+        </InformationBox>
+      )}
+      <div className="flex flex-col">
+        <button
+          className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
+          onClick={buildAutomaton}
+        >
+          Build Automaton
+        </button>
+      </div>
+    </div>
+  );
+}
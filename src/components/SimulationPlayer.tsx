@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import {
+  BsPauseFill,
+  BsPlayFill,
+  BsSkipEndFill,
+  BsSkipStartFill,
+  BsStopFill,
+} from "react-icons/bs";
+import StateManager from "../StateManager";
+import TapeStrip from "./TapeStrip";
+
+/**
+ * Writes a set of states the way it would be written by hand, such as
+ * `{q0, q1}`, or `∅` if it is empty.
+ * @param labels The labels of the states in the set.
+ * @returns The set, written out.
+ */
+export function formatStateSet(labels: Array<string>): string {
+  return labels.length === 0 ? "∅" : `{${labels.join(", ")}}`;
+}
+
+/** The playback speeds to choose from, in steps per second. */
+const PlaybackSpeeds = [0.5, 1, 2, 4];
+
+/**
+ * A panel for playing back a run of the automaton, shown along the bottom of
+ * the canvas while a string tested in debug mode is being played back. The
+ * run can be played and paused, stepped through one step at a time (also
+ * with the left and right arrow keys), or scrubbed through with a slider.
+ *
+ * The panel shows the input with the part read so far highlighted, and the
+ * states the machine is in. The canvas highlights the same states, along with
+ * the transitions just followed. For Turing machines, the tape is shown too.
+ */
+export default function SimulationPlayer() {
+  const [simulation, setSimulation] = useState(StateManager.simulation);
+  const [step, setStep] = useState(StateManager.simulationStep);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    function handleSimulationChanged() {
+      setSimulation(StateManager.simulation);
+      setStep(StateManager.simulationStep);
+    }
+    StateManager.subscribeToSimulation(handleSimulationChanged);
+    return () => {
+      StateManager.unsubscribeFromSimulation(handleSimulationChanged);
+    };
+  }, []);
+
+  // A new run always starts paused
+  useEffect(() => {
+    setIsPlaying(false);
+  }, [simulation]);
+
+  const lastStep = simulation ? simulation.steps.length - 1 : 0;
+
+  // While playing, move forward one step at a time until the end of the run
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(
+      () => StateManager.setSimulationStep(step + 1),
+      1000 / speed,
+    );
+    return () => clearTimeout(timeout);
+  }, [isPlaying, step, speed, lastStep]);
+
+  useEffect(() => {
+    if (!simulation) return;
+    function handleKeyDown(event: KeyboardEvent) {
+      // Leave the arrow keys alone while the user is typing
+      const target = event.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA") {
+        return;
+      }
+      if (event.code === "ArrowLeft") {
+        setIsPlaying(false);
+        StateManager.setSimulationStep(StateManager.simulationStep - 1);
+      } else if (event.code === "ArrowRight") {
+        setIsPlaying(false);
+        StateManager.setSimulationStep(StateManager.simulationStep + 1);
+      } else if (event.code === "Escape") {
+        StateManager.stopSimulation();
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [simulation]);
+
+  if (simulation === null) {
+    return null;
+  }
+
+  const currentStep = simulation.steps[step];
+  const stateLabels = currentStep.states.map(
+    (id) =>
+      StateManager.nodeWrappers.find((node) => node.id === id)?.labelText ??
+      "?",
+  );
+
+  const goToStep = (newStep: number) => {
+    setIsPlaying(false);
+    StateManager.setSimulationStep(newStep);
+  };
+
+  const togglePlaying = () => {
+    // Playing from the end starts the run over
+    if (!isPlaying && step >= lastStep) {
+      StateManager.setSimulationStep(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const buttonClasses =
+    "p-2 rounded-full text-blue-600 dark:text-blue-300 disabled:text-gray-400 dark:disabled:text-gray-500";
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 flex justify-center pointer-events-none">
+      <div className="z-10 pointer-events-auto bg-gray-300/50 dark:text-white p-2 m-5 rounded-lg backdrop-blur-xl shadow-xl flex flex-col items-center">
+        {currentStep.consumed !== null && (
+          <div className="flex flex-row font-mono mb-1" title="Input">
+            {simulation.input.length === 0 && <span>ε</span>}
+            {simulation.input.map((symbol, i) => (
+              <span
+                key={i}
+                className={`px-1 rounded ${
+                  i < currentStep.consumed
+                    ? "bg-green-200 dark:bg-green-900"
+                    : i === currentStep.consumed
+                      ? "underline"
+                      : "text-gray-600 dark:text-gray-300"
+                }`}
+              >
+                {symbol}
+              </span>
+            ))}
+          </div>
+        )}
+        <TapeStrip />
+        <div className="text-sm mb-1">
+          {stateLabels.length === 1
+            ? `State: ${stateLabels[0]}`
+            : `States: ${formatStateSet(stateLabels)}`}{" "}
+          (step {step} of {lastStep})
+        </div>
+        <div className="flex flex-row items-center">
+          <button
+            className={buttonClasses}
+            onClick={() => goToStep(step - 1)}
+            disabled={step <= 0}
+            title="Step back (←)"
+          >
+            <BsSkipStartFill />
+          </button>
+          <button
+            className={buttonClasses}
+            onClick={togglePlaying}
+            title={isPlaying ? "Pause" : "Play"}
+          >
+            {isPlaying ? <BsPauseFill /> : <BsPlayFill />}
+          </button>
+          <button
+            className={buttonClasses}
+            onClick={() => goToStep(step + 1)}
+            disabled={step >= lastStep}
+            title="Step forward (→)"
+          >
+            <BsSkipEndFill />
+          </button>
+          <input
+            className="mx-2 w-48"
+            type="range"
+            min={0}
+            max={lastStep}
+            value={step}
+            onChange={(e) => goToStep(parseInt(e.target.value))}
+            title="Scrub through the run"
+          />
+          <select
+            className="bg-transparent text-sm"
+            value={speed}
+            onChange={(e) => setSpeed(parseFloat(e.target.value))}
+            title="Playback speed"
+          >
+            {PlaybackSpeeds.map((option) => (
+              <option key={option} value={option}>
+                {option}×
+              </option>
+            ))}
+          </select>
+          <button
+            className="p-2 rounded-full text-red-500 dark:text-red-400"
+            onClick={() => StateManager.stopSimulation()}
+            title="Stop (Esc)"
+          >
+            <BsStopFill />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import StateManager from "../StateManager";
+import FloatingPanel from "./FloatingPanel";
+import { formatStateSet } from "./SimulationPlayer";
+
+/**
+ * A table listing the set of states the machine is in after each token of the
+ * run being played back, so it can be checked against a subset trace worked
+ * by hand. Clicking a row shows that step in the simulation player.
+ *
+ * The table is only shown for runs that read their input from left to right,
+ * so it is hidden while a Turing machine run is being played back.
+ */
+export default function SimulationTraceTable() {
+  const [simulation, setSimulation] = useState(StateManager.simulation);
+  const [step, setStep] = useState(StateManager.simulationStep);
+
+  useEffect(() => {
+    function handleSimulationChanged() {
+      setSimulation(StateManager.simulation);
+      setStep(StateManager.simulationStep);
+    }
+    StateManager.subscribeToSimulation(handleSimulationChanged);
+    return () => {
+      StateManager.unsubscribeFromSimulation(handleSimulationChanged);
+    };
+  }, []);
+
+  if (simulation === null || simulation.steps[0].consumed === null) {
+    return null;
+  }
+
+  const labelFor = (id: string) =>
+    StateManager.nodeWrappers.find((node) => node.id === id)?.labelText ?? "?";
+
+  return (
+    <FloatingPanel heightPolicy="min" style={{ width: "300px" }}>
+      <div className="font-bold mb-1">Trace</div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr>
+            <th className="px-1">Step</th>
+            <th className="px-1">Read</th>
+            <th className="px-1 text-left">States</th>
+          </tr>
+        </thead>
+        <tbody>
+          {simulation.steps.map((s, i) => (
+            <tr
+              key={i}
+              className={`cursor-pointer ${
+                i === step
+                  ? "bg-green-200 dark:bg-green-900"
+                  : "hover:bg-gray-400/30"
+              }`}
+              onClick={() => StateManager.setSimulationStep(i)}
+            >
+              <td className="px-1">{i}</td>
+              <td className="px-1 font-mono">
+                {s.consumed > 0 ? simulation.input[s.consumed - 1] : "–"}
+              </td>
+              <td className="px-1 text-left font-mono">
+                {formatStateSet(s.states.map(labelFor))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </FloatingPanel>
+  );
+}
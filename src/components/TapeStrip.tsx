@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import StateManager from "../StateManager";
+import { BlankSymbol } from "../utilities/TMUtilities";
+
+/** How many cells to show on each side of the head. */
+const CellsAroundHead = 8;
+
+/**
+ * A strip showing the tape of a Turing machine while a run is being played
+ * back in the simulation player. The cell under the head is highlighted.
+ * Nothing is shown when no tape is being played back.
+ */
+export default function TapeStrip() {
+  const [configuration, setConfiguration] = useState(
+    StateManager.tapeConfiguration,
+  );
+
+  useEffect(() => {
+    function handleTapeChanged() {
+      setConfiguration(StateManager.tapeConfiguration);
+    }
+    StateManager.subscribeToTape(handleTapeChanged);
+    return () => {
+      StateManager.unsubscribeFromTape(handleTapeChanged);
+    };
+  }, []);
+
+  if (configuration === null) {
+    return null;
+  }
+
+  const tapeSymbols = [...StateManager.alphabet, ...StateManager.tapeAlphabet];
+
+  const cells = [];
+  for (
+    let position = configuration.head - CellsAroundHead;
+    position <= configuration.head + CellsAroundHead;
+    position++
+  ) {
+    const symbolID = configuration.tape.get(position);
+    const symbol =
+      symbolID === undefined
+        ? BlankSymbol
+        : (tapeSymbols.find((tok) => tok.id === symbolID)?.symbol ?? "?");
+    const isHead = position === configuration.head;
+    cells.push(
+      <div
+        key={position}
+        className={`w-8 h-8 flex items-center justify-center border font-mono ${
+          isHead
+            ? "border-2 border-blue-600 bg-blue-100 dark:bg-blue-900"
+            : "border-gray-500 bg-white dark:bg-gray-600"
+        }`}
+      >
+        {symbol}
+      </div>,
+    );
+  }
+
+  return (
+    <div className="flex flex-row mb-1" title="Tape">
+      {cells}
+    </div>
+  );
+}
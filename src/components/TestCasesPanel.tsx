@@ -1,8 +1,23 @@
-import { ChangeEvent, useRef, useState } from "react";
+import { ChangeEvent, useEffect, useRef, useState } from "react";
 import StateManager from "../StateManager";
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { AutomatonType, isFiniteAutomatonType } from "../AutomatonType";
 import { IconContext } from "react-icons";
-import { BsCheckCircleFill, BsXCircleFill } from "react-icons/bs";
-import { testStringOnAutomata } from "./TestStringOnAutomata";
+import {
+  BsArrowDown,
+  BsArrowUp,
+  BsCheckCircleFill,
+  BsCheckLg,
+  BsPencilFill,
+  BsPlusCircleFill,
+  BsTrashFill,
+  BsXCircleFill,
+} from "react-icons/bs";
+import {
+  reportTestCases,
+  runTestCases,
+  testStringOnAutomata,
+} from "./TestStringOnAutomata";
 import {
   CoreListItem,
   CoreListItem_Left,
@@ -11,14 +26,78 @@ import {
 import { BiTestTube } from "react-icons/bi";
 import FloatingPanel from "./FloatingPanel";
 import ErrorDialogBox from "./ErrorDialogBox";
+import {
+  SerializableTestCase,
+  TestCase,
+  TestReference,
+  acceptsString,
+  findFirstString,
+  referenceToAutomaton,
+  toSerializableTestFile,
+  toTestCase,
+} from "../utilities/TestUtilities";
+import { downloadTextFile } from "../utilities/DownloadUtilities";
+import { isValidAutomaton } from "../utilities/ValidationUtilities";
+import { runStringOnAutomaton } from "../utilities/AutomatonRunUtilities";
+import { joinTokens } from "../utilities/TokenizerUtilities";
+import {
+  testReportToCSV,
+  testReportToJSON,
+  testReportToJUnitXML,
+} from "../utilities/TestReportUtilities";
+
+/**
+ * The most strings to try when searching for a counterexample, so the search
+ * ends in a reasonable time even if the automaton matches the reference.
+ */
+const MaxCounterexampleSearch = 2000;
+
+/** The formats test results can be exported in. */
+enum ReportFormat {
+  CSV,
+  JSON,
+  JUnitXML,
+}
 
 export default function TestCasesPanel() {
   const [errorMessage, setErrorMessage] = useState("");
   const [isErrorVisible, setIsErrorVisible] = useState(false);
-  const [testResults, setTestResults] = useState([]);
-  const [tests, setTests] = useState([]);
+  const [testResults, setTestResultsState] = useState(StateManager.testResults);
+  const [tests, setTestsState] = useState(StateManager.tests);
+  const [autoRun, setAutoRun] = useState(StateManager.autoRunTests);
+  const [editingID, setEditingID] = useState<string | null>(null);
+  const [reference, setReference] = useState<TestReference | null>(null);
   const testsFileInputRef = useRef<HTMLInputElement>(null); // Create a ref for the tests file input
 
+  // The tests are kept by the StateManager so that they are saved with the
+  // automaton, and can be replaced by loading an automaton. Their results
+  // are kept there too, since they may be updated automatically while the
+  // panel is closed.
+  useEffect(() => {
+    function handleTestsChanged() {
+      setTestsState(StateManager.tests);
+      setAutoRun(StateManager.autoRunTests);
+    }
+    function handleTestResultsChanged() {
+      setTestResultsState(StateManager.testResults);
+    }
+    StateManager.subscribeToTests(handleTestsChanged);
+    StateManager.subscribeToTestResults(handleTestResultsChanged);
+    return () => {
+      StateManager.unsubscribeFromTests(handleTestsChanged);
+      StateManager.unsubscribeFromTestResults(handleTestResultsChanged);
+    };
+  }, []);
+
+  // When tests are run automatically, changing them runs them again, so
+  // results must be set before the tests themselves
+  const setTests = (newTests: Array<TestCase>) => {
+    StateManager.setTests(newTests);
+  };
+  const setTestResults = (newResults: Record<string, boolean>) => {
+    StateManager.setTestResults(newResults);
+  };
+
   const handleErrorClose = () => {
     setIsErrorVisible(false);
   };
@@ -35,34 +114,211 @@ export default function TestCasesPanel() {
       );
       return;
     }
-    let results = tests.map((test) => {
-      let res = testStringOnAutomata(test.string);
-      return res === "Accepted" ? test.expectedAccept : !test.expectedAccept;
-    });
-    setTestResults(results);
+    setTestResults(runTestCases(tests));
   };
 
   const handleTestsFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
     StateManager.uploadJSON(e)
       .then((parsedData) => {
-        let i = 0;
         let arr = [];
         for (let test of parsedData.tests) {
           if (test.string !== undefined || test.expectedAccept !== undefined)
-            arr.push({
-              id: i++,
-              string: test.string,
-              expectedAccept: test.expectedAccept,
-            });
+            arr.push(toTestCase(test));
         }
+        if (parsedData.referenceAutomaton !== undefined) {
+          const automatonCheck = isValidAutomaton(
+            parsedData.referenceAutomaton,
+          );
+          if (automatonCheck[0] == false) {
+            showError(
+              `The reference automaton is invalid. ${automatonCheck[1]}`,
+            );
+            return;
+          }
+          setReference({ automaton: parsedData.referenceAutomaton });
+        } else if (typeof parsedData.referenceRegex === "string") {
+          setReference({ regex: parsedData.referenceRegex });
+        } else {
+          setReference(null);
+        }
+        setTestResults({});
         setTests(arr);
-        setTestResults([]);
+        setEditingID(null);
       })
       .catch((response) => {
         showError(`handleTestsFileUpload ${response}`);
       });
   };
 
+  // Finds the shortest string where the automaton and the reference from the
+  // tests file disagree, and adds it as a new test that expects the
+  // reference's answer
+  const handleFindCounterexampleClick = () => {
+    if (StateManager.checkDebug()) {
+      showError(
+        "Please disable Debug Mode before searching for a counterexample.",
+      );
+      return;
+    }
+
+    // Serialized once, since every candidate string is run on it
+    const automaton = StateManager.toSerializable();
+    let referenceAutomaton: SerializableAutomaton;
+    try {
+      referenceAutomaton = referenceToAutomaton(reference, automaton.alphabet);
+    } catch (e) {
+      showError(`The reference regular expression is invalid. ${e.message}`);
+      return;
+    }
+    if (!isFiniteAutomatonType(referenceAutomaton.type ?? AutomatonType.DFA)) {
+      showError("The reference automaton must be a DFA or NFA.");
+      return;
+    }
+
+    let runError = "";
+    const symbols = automaton.alphabet.map((tok) => tok.symbol);
+    const counterexample = findFirstString(
+      symbols,
+      MaxCounterexampleSearch,
+      (input) => {
+        // Some strings of tokens can't be typed as a test string, since they
+        // are written the same as another (like "a" then "b", and "ab")
+        const testString = joinTokens(
+          input,
+          symbols,
+          automaton.tokenSeparator ?? "",
+        );
+        if (testString === null) {
+          return false;
+        }
+        const res = runStringOnAutomaton(automaton, testString);
+        if (res !== "Accepted" && res !== "Rejected") {
+          runError = res;
+          return true;
+        }
+        return (
+          (res === "Accepted") !== acceptsString(referenceAutomaton, input)
+        );
+      },
+    );
+
+    if (runError) {
+      showError(
+        `The automaton could not be run (${runError}), so no counterexample could be found.`,
+      );
+      return;
+    }
+    if (counterexample === null) {
+      showError(
+        `No counterexample was found among the ${MaxCounterexampleSearch} shortest strings.`,
+      );
+      return;
+    }
+
+    const newTest = {
+      ...toTestCase({
+        string: counterexample.join(StateManager.tokenSeparator),
+        expectedAccept: acceptsString(referenceAutomaton, counterexample),
+      }),
+      generated: true,
+    };
+    const results = { ...testResults };
+    results[newTest.id] = false;
+    setTestResults(results);
+    setTests([...tests, newTest]);
+  };
+
+  // Adds an empty test to the end of the list, ready to be edited
+  const handleAddTestClick = () => {
+    const newTest = toTestCase({ string: "", expectedAccept: true });
+    setTests([...tests, newTest]);
+    setEditingID(newTest.id);
+  };
+
+  // Changes a test, clearing its result since it no longer applies
+  const updateTest = (id: string, changes: Partial<SerializableTestCase>) => {
+    const results = { ...testResults };
+    delete results[id];
+    setTestResults(results);
+    setTests(
+      tests.map((test) =>
+        test.id === id ? { ...test, ...changes, generated: false } : test,
+      ),
+    );
+  };
+
+  const deleteTest = (id: string) => {
+    setTests(tests.filter((test) => test.id !== id));
+    if (editingID === id) {
+      setEditingID(null);
+    }
+  };
+
+  // Moves a test up (a negative offset) or down (a positive one) the list
+  const moveTest = (id: string, offset: number) => {
+    const index = tests.findIndex((test) => test.id === id);
+    const newIndex = index + offset;
+    if (newIndex < 0 || newIndex >= tests.length) {
+      return;
+    }
+    const newTests = [...tests];
+    newTests.splice(index, 1);
+    newTests.splice(newIndex, 0, tests[index]);
+    setTests(newTests);
+  };
+
+  // Downloads the tests in the same format they're uploaded in
+  const handleSaveTestsButtonClick = () => {
+    downloadTextFile(
+      JSON.stringify(toSerializableTestFile(tests, reference), null, 4),
+      "tests.json",
+      "application/json",
+    );
+  };
+
+  // Runs every test again, and downloads a report of the results
+  const handleExportResultsClick = (format: ReportFormat) => {
+    if (StateManager.checkDebug()) {
+      showError("Please disable Debug Mode before exporting the test results.");
+      return;
+    }
+    if (tests.length === 0) {
+      showError("There are no tests to export the results of.");
+      return;
+    }
+
+    const entries = reportTestCases(tests);
+    const results: Record<string, boolean> = {};
+    tests.forEach((test, i) => {
+      results[test.id] = entries[i].passed;
+    });
+    setTestResults(results);
+
+    switch (format) {
+      case ReportFormat.CSV:
+        downloadTextFile(
+          testReportToCSV(entries),
+          "test_results.csv",
+          "text/csv",
+        );
+        break;
+      case ReportFormat.JSON:
+        downloadTextFile(
+          testReportToJSON(entries),
+          "test_results.json",
+          "application/json",
+        );
+        break;
+      case ReportFormat.JUnitXML:
+        downloadTextFile(
+          testReportToJUnitXML(entries, "automaton"),
+          "test_results.xml",
+          "application/xml",
+        );
+        break;
+    }
+  };
+
   const displayTestResult = (res: boolean) => {
     if (res) {
       return (
@@ -79,51 +335,128 @@ export default function TestCasesPanel() {
     }
   };
 
-  const displayTest = tests.map((test) => (
+  const displayEditedTest = (test: TestCase) => (
     <div key={test.id} className="mb-2 text-left">
       <CoreListItem>
         <CoreListItem_Left>
-          <div className="flex">
-            <div>{displayTestResult(testResults[test.id])}</div>
-            <div>
-              {test.string}
-              <div className="text-sm text-gray-600 dark:text-gray-300">
-                Should be
-                {test.expectedAccept === true ? (
-                  <span className="text-lime-500 dark:text-lime-300">
-                    {" "}
-                    {"Accepted"}
-                  </span>
-                ) : (
-                  <span className="text-red-600 dark:text-red-400">
-                    {" "}
-                    {"Rejected"}
-                  </span>
-                )}
-              </div>
-            </div>
-          </div>
-        </CoreListItem_Left>
-        <CoreListItem_Right>
-          <button
-            onClick={() => {
-              runSingleTest(test.id);
+          <input
+            className="w-32 px-1 rounded bg-gray-100 dark:bg-gray-700"
+            type="text"
+            placeholder="ε"
+            value={test.string}
+            autoFocus
+            onChange={(e) => updateTest(test.id, { string: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                setEditingID(null);
+              }
             }}
-            title={`Test ${test.string}`}
+            title="The string to test"
+          />
+          <select
+            className="block mt-1 text-sm bg-transparent"
+            value={test.expectedAccept ? "accept" : "reject"}
+            onChange={(e) =>
+              updateTest(test.id, {
+                expectedAccept: e.target.value === "accept",
+              })
+            }
+            title="Whether the automaton should accept the string"
           >
-            <BiTestTube />
+            <option value="accept">Should be Accepted</option>
+            <option value="reject">Should be Rejected</option>
+          </select>
+        </CoreListItem_Left>
+        <CoreListItem_Right>
+          <button onClick={() => setEditingID(null)} title="Done editing">
+            <BsCheckLg />
           </button>
         </CoreListItem_Right>
       </CoreListItem>
     </div>
-  ));
+  );
 
-  const runSingleTest = (id: number) => {
-    let results = tests.map((test) => {
+  const displayTest = tests.map((test, index) =>
+    test.id === editingID ? (
+      displayEditedTest(test)
+    ) : (
+      <div key={test.id} className="mb-2 text-left">
+        <CoreListItem>
+          <CoreListItem_Left>
+            <div className="flex">
+              <div>{displayTestResult(testResults[test.id])}</div>
+              <div>
+                {test.string === "" ? "ε" : test.string}
+                {test.generated && (
+                  <span className="text-sm text-gray-600 dark:text-gray-300">
+                    {" "}
+                    (generated)
+                  </span>
+                )}
+                <div className="text-sm text-gray-600 dark:text-gray-300">
+                  Should be
+                  {test.expectedAccept === true ? (
+                    <span className="text-lime-500 dark:text-lime-300">
+                      {" "}
+                      {"Accepted"}
+                    </span>
+                  ) : (
+                    <span className="text-red-600 dark:text-red-400">
+                      {" "}
+                      {"Rejected"}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          </CoreListItem_Left>
+          <CoreListItem_Right>
+            <div className="flex flex-row gap-1">
+              <button
+                onClick={() => moveTest(test.id, -1)}
+                disabled={index === 0}
+                className="disabled:text-gray-400"
+                title="Move up"
+              >
+                <BsArrowUp />
+              </button>
+              <button
+                onClick={() => moveTest(test.id, 1)}
+                disabled={index === tests.length - 1}
+                className="disabled:text-gray-400"
+                title="Move down"
+              >
+                <BsArrowDown />
+              </button>
+              <button onClick={() => setEditingID(test.id)} title="Edit test">
+                <BsPencilFill />
+              </button>
+              <button onClick={() => deleteTest(test.id)} title="Delete test">
+                <BsTrashFill />
+              </button>
+              <button
+                onClick={() => {
+                  runSingleTest(test.id);
+                }}
+                title={`Test ${test.string}`}
+              >
+                <BiTestTube />
+              </button>
+            </div>
+          </CoreListItem_Right>
+        </CoreListItem>
+      </div>
+    ),
+  );
+
+  const runSingleTest = (id: string) => {
+    let results = { ...testResults };
+    tests.forEach((test) => {
       if (test.id === id) {
         let res = testStringOnAutomata(test.string);
-        return res === "Accepted" ? test.expectedAccept : !test.expectedAccept;
-      } else return testResults[test.id];
+        results[test.id] =
+          res === "Accepted" ? test.expectedAccept : !test.expectedAccept;
+      }
     });
     setTestResults(results);
   };
@@ -145,22 +478,89 @@ export default function TestCasesPanel() {
             style={{ display: "none" }}
             onChange={handleTestsFileUpload}
           />
-          <button
-            className="float-right"
-            onClick={handleLoadTestsButtonClick}
-            title="Upload Tests from JSON"
-          >
-            <span className="text-sky-500 dark:text-sky-200">Upload Tests</span>
-          </button>
+          <div className="float-right flex flex-col items-end">
+            <button
+              onClick={handleLoadTestsButtonClick}
+              title="Upload Tests from JSON"
+            >
+              <span className="text-sky-500 dark:text-sky-200">
+                Upload Tests
+              </span>
+            </button>
+            <button
+              onClick={handleSaveTestsButtonClick}
+              title="Save Tests to JSON"
+            >
+              <span className="text-sky-500 dark:text-sky-200">Save Tests</span>
+            </button>
+          </div>
         </div>
         <div className="max-h-48 overflow-y-auto">{displayTest}</div>
         <div className="flex flex-col">
+          <button
+            className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
+            onClick={handleAddTestClick}
+          >
+            <div className="flex flex-row items-center place-content-center">
+              <BsPlusCircleFill className="mr-1" />
+              Add Test
+            </div>
+          </button>
           <button
             className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
             onClick={handleRunAllTestsClick}
           >
             Run All Tests
           </button>
+          <label
+            className="m-1 text-sm text-left"
+            title="Run every test again whenever the automaton or the tests change. Tests aren't run automatically in Debug Mode."
+          >
+            <input
+              className="mr-1"
+              type="checkbox"
+              checked={autoRun}
+              onChange={(e) => StateManager.setAutoRunTests(e.target.checked)}
+            />
+            Run tests automatically
+          </label>
+          <div className="m-1 text-sm text-left">
+            Export results:
+            <button
+              className="ml-2"
+              onClick={() => handleExportResultsClick(ReportFormat.CSV)}
+              title="Run every test and download the results as CSV"
+            >
+              <span className="text-sky-500 dark:text-sky-200">CSV</span>
+            </button>
+            <button
+              className="ml-2"
+              onClick={() => handleExportResultsClick(ReportFormat.JSON)}
+              title="Run every test and download the results as JSON"
+            >
+              <span className="text-sky-500 dark:text-sky-200">JSON</span>
+            </button>
+            <button
+              className="ml-2"
+              onClick={() => handleExportResultsClick(ReportFormat.JUnitXML)}
+              title="Run every test and download the results as JUnit XML"
+            >
+              <span className="text-sky-500 dark:text-sky-200">JUnit XML</span>
+            </button>
+          </div>
+          {reference && (
+            <button
+              className="rounded-full p-2 m-1 bg-blue-600 dark:bg-blue-800 text-white text-center"
+              onClick={handleFindCounterexampleClick}
+              title={
+                reference.regex !== undefined
+                  ? `Compare against the reference expression ${reference.regex}`
+                  : "Compare against the reference automaton"
+              }
+            >
+              Find Counterexample
+            </button>
+          )}
         </div>
       </FloatingPanel>
       {isErrorVisible && (
@@ -1,40 +1,110 @@
-import DFARunner, { DFARunnerStatus } from "automaton-kit/lib/dfa/DFARunner";
 import StateManager from "../StateManager";
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+import { configurationAtStep, runTM } from "../utilities/TMUtilities";
+import { TokenizeStatus } from "../utilities/TokenizerUtilities";
+import { TestCase } from "../utilities/TestUtilities";
+import { TestReportEntry } from "../utilities/TestReportUtilities";
+import {
+  runStringOnAutomaton,
+  runTestSuite,
+  tokenizeForAutomaton,
+} from "../utilities/AutomatonRunUtilities";
+import {
+  tmRunToSteps,
+  traceDeterministicRun,
+  traceNFARun,
+} from "../utilities/SimulationUtilities";
 
+/**
+ * Runs the given string on the current automaton. In debug mode, the run can
+ * then be played back in the simulation player.
+ * @param testString The string to run.
+ * @returns A human-readable status for the result of the run. See
+ * `runStringOnAutomaton`.
+ */
 export function testStringOnAutomata(testString: string): string {
-  let myDFA = StateManager.dfa;
-  let runner = new DFARunner(myDFA, testString.split(""));
-  runner.runUntilConclusion();
+  console.log("Testing string:", testString);
+  const automaton = StateManager.toSerializable();
+  const result = runStringOnAutomaton(automaton, testString);
+  console.log(`Result: ${result}`);
+
   if (StateManager.checkDebug()) {
-    let runnerdebug = new DFARunner(myDFA, testString.split(""));
-    let path = runnerdebug.runUntilConclusionDebug();
-    StateManager.debugMachine(path);
+    playBackRun(automaton, testString);
   }
 
-  let result = runner.getStatus();
-  console.log("Testing string:", testString);
+  return result;
+}
+
+/**
+ * Runs each of the given tests on the current automaton. A test passes if
+ * the string is accepted exactly when the test expects it to be. Unlike
+ * testing a single string, nothing is logged or played back, since this runs
+ * whenever the automaton changes if tests are run automatically.
+ * @param tests The tests to run.
+ * @returns Whether each test passed, by the test's ID.
+ */
+export function runTestCases(tests: Array<TestCase>): Record<string, boolean> {
+  const entries = runTestSuite(StateManager.toSerializable(), tests);
+  const results: Record<string, boolean> = {};
+  tests.forEach((test, i) => {
+    results[test.id] = entries[i].passed;
+  });
+  return results;
+}
+
+/**
+ * Runs each of the given tests on the current automaton, recording
+ * everything about the run that goes in a test report.
+ * @param tests The tests to run.
+ * @returns The result of each test, in the same order as the tests.
+ */
+export function reportTestCases(
+  tests: Array<TestCase>,
+): Array<TestReportEntry> {
+  return runTestSuite(StateManager.toSerializable(), tests);
+}
+
+/**
+ * Starts playing back the run of a string in the simulation player. Turing
+ * machine runs also show the tape at each step.
+ * @param automaton The automaton the string was run on.
+ * @param testString The string that was run.
+ */
+function playBackRun(automaton: SerializableAutomaton, testString: string) {
+  const tokenized = tokenizeForAutomaton(automaton, testString);
+  if (tokenized.status !== TokenizeStatus.Success) {
+    return;
+  }
+  const input = tokenized.tokens;
 
-  switch (result) {
-    case DFARunnerStatus.NotStarted:
-      console.log("Result: Not Started");
-      return "Not Started";
-    case DFARunnerStatus.InProgress:
-      console.log("Result: In Progress");
-      return "In Progress";
-    case DFARunnerStatus.Accepted:
-      console.log("Result: Accepted");
-      return "Accepted";
-    case DFARunnerStatus.Rejected:
-      console.log("Result: Rejected");
-      return "Rejected";
-    case DFARunnerStatus.InvalidDFA:
-      console.log("Result: Invalid DFA");
-      return "Invalid DFA";
-    case DFARunnerStatus.InvalidInputTokens:
-      console.log("Result: Invalid Input Tokens");
-      return "Invalid Input Tokens";
+  switch (automaton.type) {
+    case AutomatonType.NFA:
+      StateManager.startSimulation({
+        input: input,
+        steps: traceNFARun(automaton, input),
+      });
+      return;
+    case AutomatonType.PDA:
+      // PDA runs are explored breadth-first, so there is no single run to
+      // play back
+      return;
+    case AutomatonType.TM: {
+      const result = runTM(automaton, input, StateManager.tmStepLimit);
+      StateManager.startSimulation(
+        { input: input, steps: tmRunToSteps(result) },
+        (step) => {
+          StateManager.setTapeConfiguration(
+            step === null ? null : configurationAtStep(automaton, input, step),
+          );
+        },
+      );
+      return;
+    }
     default:
-      console.log("Result: Unknown Status");
-      return "Unknown Status";
+      StateManager.startSimulation({
+        input: input,
+        steps: traceDeterministicRun(automaton, input),
+      });
   }
 }
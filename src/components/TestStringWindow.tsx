@@ -14,14 +14,31 @@ export default function TestStringWindow() {
       result === "Rejected" ||
       result === "Accepted" ||
       result === "Invalid DFA" ||
-      result === "Invalid Input Tokens"
+      result === "Invalid NFA" ||
+      result === "Invalid PDA" ||
+      result === "Invalid TM" ||
+      result === "Invalid Input Tokens" ||
+      result === "Ambiguous Input Tokens" ||
+      result === "Configuration Limit Reached" ||
+      result === "Step Limit Reached" ||
+      result === "Invalid Machine" ||
+      result === "No Transition For Input" ||
+      result.startsWith("Output:")
     )
       setResult("");
   }, [JSON.stringify(StateManager.dfa)]);
 
   const errorMessages = [
     "Invalid DFA",
+    "Invalid NFA",
+    "Invalid PDA",
+    "Invalid TM",
     "Invalid Input Tokens",
+    "Ambiguous Input Tokens",
+    "Configuration Limit Reached",
+    "Step Limit Reached",
+    "Invalid Machine",
+    "No Transition For Input",
     "Empty string not allowed",
     "Rejected",
   ];
@@ -27,6 +27,7 @@ import ErrorDialogBox from "./ErrorDialogBox";
 import { FaRegImage } from "react-icons/fa6";
 import { BiFileBlank, BiReset } from "react-icons/bi";
 import { MdOutlineFitScreen } from "react-icons/md";
+import { isValidAutomaton } from "../utilities/ValidationUtilities";
 
 import { ClosableModalWindow } from "./ModalWindow";
 import { motion, AnimatePresence } from "framer-motion";
@@ -146,7 +147,7 @@ export default function Toolbox(props: React.PropsWithChildren<ToolboxProps>) {
   const handleFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
     StateManager.uploadJSON(e)
       .then((parsedData) => {
-        const automatonCheck = StateManager.isValidAutomaton(parsedData);
+        const automatonCheck = isValidAutomaton(parsedData);
         if (automatonCheck[0] == false) {
           showError(automatonCheck[1]);
           return;
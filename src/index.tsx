@@ -9,7 +9,18 @@ import SelectableObject from "./SelectableObject";
 import DetailsBox from "./components/DetailsBox/DetailsBox";
 import { ClosableModalWindow } from "./components/ModalWindow";
 import ConfigureAutomatonWindow from "./components/ConfigureAutomatonWindow";
-import { BsGearFill, BsMoonFill } from "react-icons/bs";
+import {
+  BsDiagram2Fill,
+  BsDiagram3Fill,
+  BsFunnelFill,
+  BsRegex,
+  BsCodeSlash,
+  BsCheck2Square,
+  BsIntersect,
+  BsGearFill,
+  BsMortarboardFill,
+  BsMoonFill,
+} from "react-icons/bs";
 import TestStringWindow from "./components/TestStringWindow";
 import InformationBox, {
   InformationBoxType,
@@ -22,6 +33,25 @@ import NodeWrapper from "./NodeWrapper";
 import { useActionStack } from "./utilities/ActionStackUtilities";
 import { GrTest } from "react-icons/gr";
 import TestCasesPanel from "./components/TestCasesPanel";
+import { AutomatonType } from "./AutomatonType";
+import ErrorDialogBox from "./components/ErrorDialogBox";
+import RegexToAutomatonWindow from "./components/RegexToAutomatonWindow";
+import AutomatonToRegexPanel from "./components/AutomatonToRegexPanel";
+import EquivalenceCheckWindow from "./components/EquivalenceCheckWindow";
+import CombineAutomataWindow from "./components/CombineAutomataWindow";
+import GradingWindow from "./components/GradingWindow";
+import SimulationPlayer from "./components/SimulationPlayer";
+import SimulationTraceTable from "./components/SimulationTraceTable";
+import ComputationTreePanel from "./components/ComputationTreePanel";
+import { runTestCases } from "./components/TestStringOnAutomata";
+import UndoRedoManager from "./UndoRedoManager";
+import { missingTransitions } from "./utilities/DFAUtilities";
+
+/**
+ * How long to wait, in milliseconds, after the tests stop changing before
+ * running them automatically.
+ */
+const AutoRunTestsDelay = 300;
 
 function App() {
   const [currentTool, setCurrentTool] = useState(Tool.States);
@@ -39,6 +69,62 @@ function App() {
     setTestsPanelOpen(!testsPanelOpen);
   };
 
+  // When tests are run automatically, run them again whenever the automaton
+  // or the tests change, and keep a count of how many pass for the "Tests"
+  // button
+  const [testResults, setTestResults] = useState(StateManager.testResults);
+  const [tests, setTests] = useState(StateManager.tests);
+  useEffect(() => {
+    let pendingRun: number | null = null;
+    function runTestsIfAutomatic() {
+      if (pendingRun !== null) {
+        window.clearTimeout(pendingRun);
+        pendingRun = null;
+      }
+      setTests(StateManager.tests);
+      if (StateManager.autoRunTests && !StateManager.checkDebug()) {
+        StateManager.setTestResults(runTestCases(StateManager.tests));
+      }
+    }
+    // Editing a test changes the tests on every keystroke, so they are only
+    // run once typing pauses
+    function handleTestsChanged() {
+      setTests(StateManager.tests);
+      if (pendingRun !== null) {
+        window.clearTimeout(pendingRun);
+      }
+      pendingRun = window.setTimeout(runTestsIfAutomatic, AutoRunTestsDelay);
+    }
+    function handleTestResultsChanged() {
+      setTestResults(StateManager.testResults);
+    }
+    UndoRedoManager.startListeningOnStackChanged(runTestsIfAutomatic);
+    StateManager.subscribeToTests(handleTestsChanged);
+    StateManager.subscribeToTestResults(handleTestResultsChanged);
+    return () => {
+      if (pendingRun !== null) {
+        window.clearTimeout(pendingRun);
+      }
+      UndoRedoManager.stopListeningOnStackChanged(runTestsIfAutomatic);
+      StateManager.unsubscribeFromTests(handleTestsChanged);
+      StateManager.unsubscribeFromTestResults(handleTestResultsChanged);
+    };
+  }, []);
+  const testsRun = tests.filter((test) => test.id in testResults).length;
+  const testsPassed = tests.filter((test) => testResults[test.id]).length;
+
+  // React state and open/close functions for the "Regex" panel
+  const [regexPanelOpen, setRegexPanelOpen] = useState(false);
+  const toggleRegexPanel = () => {
+    setRegexPanelOpen(!regexPanelOpen);
+  };
+
+  // React state and open/close functions for the computation "Tree" panel
+  const [treePanelOpen, setTreePanelOpen] = useState(false);
+  const toggleTreePanel = () => {
+    setTreePanelOpen(!treePanelOpen);
+  };
+
   // Adds the "confirm close" modal when attempting to close the page.
   // Solution from this stackoverflow page:
   // https://stackoverflow.com/a/52358522
@@ -96,8 +182,10 @@ function App() {
   useEffect(() => {
     const dfa = StateManager.dfa;
     if (dfa) {
-      // Get the list of errors from the DFA
-      const errors = dfa.getErrors();
+      // Get the list of errors from the DFA. NFAs don't have to follow the
+      // DFA rules, so none of these apply to them.
+      const errors =
+        StateManager.automatonType === AutomatonType.DFA ? dfa.getErrors() : [];
       // Create a set to keep track of nodes that have errors
       const errorNodes = new Set<NodeWrapper>();
 
@@ -156,6 +244,67 @@ function App() {
     setConfigWindowOpen(false);
   };
 
+  // React state and open/close functions for the "Regular Expression"
+  // modal window.
+  const [regexWindowOpen, setRegexWindowOpen] = useState(false);
+  const openRegexWindow = () => {
+    setRegexWindowOpen(true);
+  };
+  const closeRegexWindow = () => {
+    setRegexWindowOpen(false);
+  };
+
+  // React state and open/close functions for the "Check Equivalence"
+  // modal window.
+  const [equivalenceWindowOpen, setEquivalenceWindowOpen] = useState(false);
+  const openEquivalenceWindow = () => {
+    setEquivalenceWindowOpen(true);
+  };
+  const closeEquivalenceWindow = () => {
+    setEquivalenceWindowOpen(false);
+  };
+
+  // React state and open/close functions for the "Combine Automata" modal
+  // window.
+  const [combineWindowOpen, setCombineWindowOpen] = useState(false);
+  const openCombineWindow = () => {
+    setCombineWindowOpen(true);
+  };
+  const closeCombineWindow = () => {
+    setCombineWindowOpen(false);
+  };
+
+  // React state and open/close functions for the "Grade Automata" modal
+  // window.
+  const [gradingWindowOpen, setGradingWindowOpen] = useState(false);
+  const openGradingWindow = () => {
+    setGradingWindowOpen(true);
+  };
+  const closeGradingWindow = () => {
+    setGradingWindowOpen(false);
+  };
+
+  // React state for error messages from commands that transform the
+  // automaton (e.g. converting an NFA to a DFA).
+  const [commandErrorMessage, setCommandErrorMessage] = useState("");
+  const closeCommandError = () => {
+    setCommandErrorMessage("");
+  };
+
+  const convertToDFA = () => {
+    const [converted, message] = StateManager.convertNFAToDFA();
+    if (!converted) {
+      setCommandErrorMessage(message);
+    }
+  };
+
+  const minimizeDFA = () => {
+    const [minimized, message] = StateManager.minimizeDFA();
+    if (!minimized) {
+      setCommandErrorMessage(message);
+    }
+  };
+
   // React state and enable/disable functions for dark mode.
   const [useDarkMode, setDarkMode] = useState(false);
   const toggleDarkMode = () => {
@@ -165,16 +314,26 @@ function App() {
     StateManager.useDarkMode = useDarkMode;
   }, [useDarkMode]);
 
-  // Create a DFA from the current state, and get the errors from it
-  let dfa = StateManager.dfa;
-  let dfaErrors = dfa.getErrors();
+  // Create a DFA from the current state, and get the errors from it.
+  // These are only relevant when the automaton is actually a DFA.
+  const getDFAErrors = () =>
+    StateManager.automatonType === AutomatonType.DFA
+      ? StateManager.dfa.getErrors()
+      : [];
+  let dfaErrors = getDFAErrors();
 
   // If the current stack location is changed, update the DFA and get errors again
   useEffect(() => {
-    dfa = StateManager.dfa;
-    dfaErrors = dfa.getErrors();
+    dfaErrors = getDFAErrors();
   }, [currentStackLocation]);
 
+  const addTrapState = () => {
+    const [added, message] = StateManager.addTrapState();
+    if (!added) {
+      setCommandErrorMessage(message);
+    }
+  };
+
   let errorBoxes = dfaErrors.map((err) => {
     return (
       <div key={err.errorString()}>
@@ -191,6 +350,101 @@ function App() {
     );
   });
 
+  // States missing transitions can be fixed by routing them to a trap state.
+  // The DFA errors don't say which kind of problem they are, so the quick-fix
+  // goes on an error of its own that lists just those states.
+  const automaton = StateManager.toSerializable();
+  const labelsMissingTransitions =
+    StateManager.automatonType === AutomatonType.DFA
+      ? Array.from(missingTransitions(automaton).keys()).map(
+          (id) => automaton.states.find((state) => state.id === id).label,
+        )
+      : [];
+  const missingTransitionsBox = labelsMissingTransitions.length > 0 && (
+    <div key="missing-transitions">
+      <motion.div
+        initial={{ opacity: 0, height: 0 }}
+        animate={{ opacity: 1, height: "auto" }}
+        exit={{ opacity: 0, height: 0 }}
+      >
+        <InformationBox infoBoxType={InformationBoxType.Error}>
+          {labelsMissingTransitions.length === 1 ? "State" : "States"}{" "}
+          {labelsMissingTransitions.map((label) => `"${label}"`).join(", ")}{" "}
+          {labelsMissingTransitions.length === 1 ? "is" : "are"} missing
+          transitions
+          <button
+            className="block text-sm text-sky-600 dark:text-sky-300"
+            onClick={addTrapState}
+            title="Add a trap state and route every missing transition to it"
+          >
+            Fix: add trap state
+          </button>
+        </InformationBox>
+      </motion.div>
+    </div>
+  );
+
+  const removeUnreachableStates = () => {
+    const [removed, message] = StateManager.removeUnreachableNodes();
+    if (!removed) {
+      setCommandErrorMessage(message);
+    }
+  };
+
+  // Find states that can't affect whether a string is accepted: those that
+  // can't be reached, and those that can never lead to an accept state
+  const unreachableNodes = StateManager.unreachableNodes;
+  const deadNodes = StateManager.deadNodes.filter(
+    (node) => !unreachableNodes.includes(node),
+  );
+
+  // Dim those states on the canvas after every render, since any change to
+  // the automaton can change which states they are
+  useEffect(() => {
+    StateManager.nodeWrappers.forEach((node) => {
+      node.setDimmedState(
+        unreachableNodes.includes(node) || deadNodes.includes(node),
+      );
+    });
+  });
+
+  const unreachableWarningBoxes = unreachableNodes.map((node) => (
+    <div key={`unreachable-${node.id}`}>
+      <motion.div
+        initial={{ opacity: 0, height: 0 }}
+        animate={{ opacity: 1, height: "auto" }}
+        exit={{ opacity: 0, height: 0 }}
+      >
+        <InformationBox infoBoxType={InformationBoxType.Warning}>
+          State &quot;{node.labelText}&quot; can&apos;t be reached from the
+          start state
+          <button
+            className="block text-sm text-sky-600 dark:text-sky-300"
+            onClick={removeUnreachableStates}
+            title="Remove every state that can't be reached from the start state"
+          >
+            Remove unreachable states
+          </button>
+        </InformationBox>
+      </motion.div>
+    </div>
+  ));
+
+  const deadWarningBoxes = deadNodes.map((node) => (
+    <div key={`dead-${node.id}`}>
+      <motion.div
+        initial={{ opacity: 0, height: 0 }}
+        animate={{ opacity: 1, height: "auto" }}
+        exit={{ opacity: 0, height: 0 }}
+      >
+        <InformationBox infoBoxType={InformationBoxType.Warning}>
+          State &quot;{node.labelText}&quot; can&apos;t reach an accept state,
+          so any string that gets there is rejected
+        </InformationBox>
+      </motion.div>
+    </div>
+  ));
+
   return (
     <div className={useDarkMode ? "dark" : ""}>
       <NodeView />
@@ -204,7 +458,12 @@ function App() {
             />
 
             <div className="max-h-96 overflow-y-auto">
-              <AnimatePresence>{errorBoxes}</AnimatePresence>
+              <AnimatePresence>
+                {errorBoxes}
+                {missingTransitionsBox}
+                {unreachableWarningBoxes}
+                {deadWarningBoxes}
+              </AnimatePresence>
             </div>
 
             {/* Example error message boxes commented out */}
@@ -261,6 +520,86 @@ function App() {
                   Configure Automaton
                 </div>
               </button>
+              <button
+                className="rounded-full p-2 m-1 mx-2 block bg-amber-500 text-white text-center"
+                onClick={convertToDFA}
+                title="Replace the automaton with an equivalent DFA"
+              >
+                <div className="flex flex-row items-center place-content-center mx-2">
+                  <BsDiagram3Fill className="mr-1" />
+                  Convert to DFA
+                </div>
+              </button>
+              <button
+                className="rounded-full p-2 m-1 mx-2 block bg-amber-500 text-white text-center"
+                onClick={minimizeDFA}
+                title="Replace the DFA with an equivalent DFA with as few states as possible"
+              >
+                <div className="flex flex-row items-center place-content-center mx-2">
+                  <BsFunnelFill className="mr-1" />
+                  Minimize
+                </div>
+              </button>
+              <button
+                className="rounded-full p-2 m-1 mx-2 block bg-amber-500 text-white text-center"
+                onClick={openRegexWindow}
+                title="Build an automaton from a regular expression"
+              >
+                <div className="flex flex-row items-center place-content-center mx-2">
+                  <BsRegex className="mr-1" />
+                  From Regex
+                </div>
+              </button>
+              <button
+                className="rounded-full p-2 m-1 mx-2 block bg-amber-500 text-white text-center"
+                onClick={toggleRegexPanel}
+                title="Show a regular expression for the automaton"
+              >
+                <div className="flex flex-row items-center place-content-center mx-2">
+                  <BsCodeSlash className="mr-1" />
+                  To Regex
+                </div>
+              </button>
+              <button
+                className="rounded-full p-2 m-1 mx-2 block bg-amber-500 text-white text-center"
+                onClick={toggleTreePanel}
+                title="Show the computation tree of a string on the NFA or PDA"
+              >
+                <div className="flex flex-row items-center place-content-center mx-2">
+                  <BsDiagram2Fill className="mr-1" />
+                  Tree
+                </div>
+              </button>
+              <button
+                className="rounded-full p-2 m-1 mx-2 block bg-amber-500 text-white text-center"
+                onClick={openEquivalenceWindow}
+                title="Check whether the automaton accepts the same language as a reference automaton"
+              >
+                <div className="flex flex-row items-center place-content-center mx-2">
+                  <BsCheck2Square className="mr-1" />
+                  Compare
+                </div>
+              </button>
+              <button
+                className="rounded-full p-2 m-1 mx-2 block bg-amber-500 text-white text-center"
+                onClick={openCombineWindow}
+                title="Combine the automaton with another, or complement it"
+              >
+                <div className="flex flex-row items-center place-content-center mx-2">
+                  <BsIntersect className="mr-1" />
+                  Combine
+                </div>
+              </button>
+              <button
+                className="rounded-full p-2 m-1 mx-2 block bg-amber-500 text-white text-center"
+                onClick={openGradingWindow}
+                title="Run the tests on many automaton files and show a scoreboard"
+              >
+                <div className="flex flex-row items-center place-content-center mx-2">
+                  <BsMortarboardFill className="mr-1" />
+                  Grade
+                </div>
+              </button>
               <button
                 className="rounded-full p-2 m-1 mx-2 block bg-cyan-400 dark:bg-cyan-600 text-white text-center"
                 onClick={toggleTestsPanel}
@@ -268,6 +607,16 @@ function App() {
                 <div className="flex flex-row items-center place-content-center mx-2">
                   <GrTest className="mr-1" />
                   Tests
+                  {testsRun > 0 && (
+                    <span
+                      className={`ml-2 px-2 rounded-full text-sm ${
+                        testsPassed === testsRun ? "bg-green-600" : "bg-red-600"
+                      }`}
+                      title={`${testsPassed} of ${testsRun} tests run passed (${tests.length} tests in total)`}
+                    >
+                      {testsPassed}/{testsRun}
+                    </span>
+                  )}
                 </div>
               </button>
               <button
@@ -282,6 +631,9 @@ function App() {
             </div>
           </FloatingPanel>
           {testsPanelOpen && <TestCasesPanel />}
+          {regexPanelOpen && <AutomatonToRegexPanel />}
+          {treePanelOpen && <ComputationTreePanel />}
+          <SimulationTraceTable />
         </div>
 
         <FloatingPanel heightPolicy="min" style={{ width: "250px" }}>
@@ -292,6 +644,7 @@ function App() {
           <Toolbox currentTool={currentTool} setCurrentTool={setCurrentTool} />
         </FloatingPanel>
       </div>
+      <SimulationPlayer />
       {
         <AnimatePresence>
           {configWindowOpen && (
@@ -304,8 +657,54 @@ function App() {
               </ClosableModalWindow>
             </motion.div>
           )}
+          {regexWindowOpen && (
+            <motion.div>
+              <ClosableModalWindow
+                title="Automaton From Regular Expression"
+                close={closeRegexWindow}
+              >
+                <RegexToAutomatonWindow close={closeRegexWindow} />
+              </ClosableModalWindow>
+            </motion.div>
+          )}
+          {equivalenceWindowOpen && (
+            <motion.div>
+              <ClosableModalWindow
+                title="Check Equivalence"
+                close={closeEquivalenceWindow}
+              >
+                <EquivalenceCheckWindow />
+              </ClosableModalWindow>
+            </motion.div>
+          )}
+          {combineWindowOpen && (
+            <motion.div>
+              <ClosableModalWindow
+                title="Combine Automata"
+                close={closeCombineWindow}
+              >
+                <CombineAutomataWindow close={closeCombineWindow} />
+              </ClosableModalWindow>
+            </motion.div>
+          )}
+          {gradingWindowOpen && (
+            <motion.div>
+              <ClosableModalWindow
+                title="Grade Automata"
+                close={closeGradingWindow}
+              >
+                <GradingWindow />
+              </ClosableModalWindow>
+            </motion.div>
+          )}
         </AnimatePresence>
       }
+      {commandErrorMessage && (
+        <ErrorDialogBox
+          onClose={closeCommandError}
+          message={commandErrorMessage}
+        />
+      )}
     </div>
   );
 }
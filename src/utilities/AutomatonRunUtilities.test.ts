@@ -0,0 +1,251 @@
+import { describe, expect, it } from "vitest";
+import {
+  SerializableAutomaton,
+  SerializableTransition,
+} from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+import { PDAAcceptanceMode } from "./PDAUtilities";
+import { TMMove } from "./TMUtilities";
+import {
+  NotAnAcceptorStatus,
+  finalStatesOf,
+  isTestPassed,
+  runStringOnAutomaton,
+  runTestSuite,
+} from "./AutomatonRunUtilities";
+
+/**
+ * Builds a transition for a test automaton.
+ * @param id The ID of the transition.
+ * @param source The ID of the state it leaves.
+ * @param dest The ID of the state it enters.
+ * @param tokens The IDs of the tokens it is followed on.
+ * @param extra Any other fields of the transition, such as its rules.
+ * @returns The transition.
+ */
+function transition(
+  id: string,
+  source: string,
+  dest: string,
+  tokens: Array<string>,
+  extra: Partial<SerializableTransition> = {},
+): SerializableTransition {
+  return {
+    id: id,
+    source: source,
+    dest: dest,
+    isEpsilonTransition: false,
+    tokens: tokens,
+    ...extra,
+  };
+}
+
+const states = [
+  { id: "s0", x: 0, y: 0, label: "q0" },
+  { id: "s1", x: 100, y: 0, label: "q1" },
+];
+
+const binaryAlphabet = [
+  { id: "t0", symbol: "0" },
+  { id: "t1", symbol: "1" },
+];
+
+/** A DFA over {0, 1} that accepts strings ending in 1. */
+const endsInOneDFA: SerializableAutomaton = {
+  type: AutomatonType.DFA,
+  states: states,
+  alphabet: binaryAlphabet,
+  transitions: [
+    transition("r0", "s0", "s0", ["t0"]),
+    transition("r1", "s0", "s1", ["t1"]),
+    transition("r2", "s1", "s0", ["t0"]),
+    transition("r3", "s1", "s1", ["t1"]),
+  ],
+  startState: "s0",
+  acceptStates: ["s1"],
+};
+
+/** An NFA over {0, 1} that accepts strings ending in 1. */
+const endsInOneNFA: SerializableAutomaton = {
+  type: AutomatonType.NFA,
+  states: states,
+  alphabet: binaryAlphabet,
+  transitions: [
+    transition("r0", "s0", "s0", ["t0", "t1"]),
+    transition("r1", "s0", "s1", ["t1"]),
+  ],
+  startState: "s0",
+  acceptStates: ["s1"],
+};
+
+/** A PDA that accepts aⁿbⁿ by empty stack. */
+const anbnPDA: SerializableAutomaton = {
+  type: AutomatonType.PDA,
+  states: states,
+  alphabet: [
+    { id: "ta", symbol: "a" },
+    { id: "tb", symbol: "b" },
+  ],
+  stackAlphabet: [{ id: "A", symbol: "A" }],
+  pdaAcceptance: PDAAcceptanceMode.EmptyStack,
+  transitions: [
+    transition("r0", "s0", "s0", [], {
+      pdaRules: [{ input: "ta", pop: null, push: ["A"] }],
+    }),
+    transition("r1", "s0", "s1", [], {
+      pdaRules: [{ input: null, pop: null, push: [] }],
+    }),
+    transition("r2", "s1", "s1", [], {
+      pdaRules: [{ input: "tb", pop: "A", push: [] }],
+    }),
+  ],
+  startState: "s0",
+  acceptStates: [],
+};
+
+/** A Turing machine that accepts strings made only of a. */
+const onlyAsTM: SerializableAutomaton = {
+  type: AutomatonType.TM,
+  states: states,
+  alphabet: [
+    { id: "ta", symbol: "a" },
+    { id: "tb", symbol: "b" },
+  ],
+  transitions: [
+    transition("r0", "s0", "s0", [], {
+      tmRules: [{ read: "ta", write: "ta", move: TMMove.Right }],
+    }),
+    transition("r1", "s0", "s1", [], {
+      tmRules: [{ read: null, write: null, move: TMMove.Stay }],
+    }),
+  ],
+  startState: "s0",
+  acceptStates: ["s1"],
+  rejectStates: [],
+};
+
+/** A Mealy machine that swaps 0 and 1. */
+const flipMealy: SerializableAutomaton = {
+  type: AutomatonType.Mealy,
+  states: [states[0]],
+  alphabet: binaryAlphabet,
+  outputAlphabet: [
+    { id: "o0", symbol: "0" },
+    { id: "o1", symbol: "1" },
+  ],
+  transitions: [
+    transition("r0", "s0", "s0", ["t0", "t1"], {
+      outputs: [
+        { token: "t0", output: "o1" },
+        { token: "t1", output: "o0" },
+      ],
+    }),
+  ],
+  startState: "s0",
+  acceptStates: [],
+};
+
+describe("runStringOnAutomaton", () => {
+  it("runs DFAs", () => {
+    expect(runStringOnAutomaton(endsInOneDFA, "0101")).toBe("Accepted");
+    expect(runStringOnAutomaton(endsInOneDFA, "0110")).toBe("Rejected");
+    expect(runStringOnAutomaton(endsInOneDFA, "")).toBe("Rejected");
+  });
+
+  it("runs NFAs", () => {
+    expect(runStringOnAutomaton(endsInOneNFA, "0101")).toBe("Accepted");
+    expect(runStringOnAutomaton(endsInOneNFA, "10")).toBe("Rejected");
+  });
+
+  it("runs PDAs", () => {
+    expect(runStringOnAutomaton(anbnPDA, "")).toBe("Accepted");
+    expect(runStringOnAutomaton(anbnPDA, "aabb")).toBe("Accepted");
+    expect(runStringOnAutomaton(anbnPDA, "aab")).toBe("Rejected");
+  });
+
+  it("runs Turing machines", () => {
+    expect(runStringOnAutomaton(onlyAsTM, "aaa")).toBe("Accepted");
+    expect(runStringOnAutomaton(onlyAsTM, "aba")).toBe("Rejected");
+  });
+
+  it("reports the output of transducers", () => {
+    expect(runStringOnAutomaton(flipMealy, "0011")).toBe("Output: 1100");
+    expect(runStringOnAutomaton(flipMealy, "")).toBe("Output: ε");
+  });
+
+  it("reports symbols that aren't in the alphabet", () => {
+    expect(runStringOnAutomaton(endsInOneNFA, "012")).toBe(
+      "Invalid Input Tokens",
+    );
+  });
+
+  it("splits strings at the token separator", () => {
+    const automaton = { ...endsInOneNFA, tokenSeparator: "," };
+    expect(runStringOnAutomaton(automaton, "0,1")).toBe("Accepted");
+  });
+});
+
+describe("isTestPassed", () => {
+  it("passes when the string is accepted exactly when expected", () => {
+    expect(isTestPassed("Accepted", true)).toBe(true);
+    expect(isTestPassed("Rejected", false)).toBe(true);
+    expect(isTestPassed("Rejected", true)).toBe(false);
+    expect(isTestPassed("Accepted", false)).toBe(false);
+  });
+
+  it("treats a run that couldn't finish as not accepting", () => {
+    expect(isTestPassed("Invalid Input Tokens", false)).toBe(true);
+    expect(isTestPassed("Invalid Input Tokens", true)).toBe(false);
+  });
+});
+
+describe("finalStatesOf", () => {
+  it("lists every state an NFA ends in", () => {
+    expect(finalStatesOf(endsInOneNFA, "01")).toEqual(["q0", "q1"]);
+  });
+
+  it("lists the state a DFA ends in", () => {
+    expect(finalStatesOf(endsInOneDFA, "10")).toEqual(["q0"]);
+  });
+
+  it("lists no states when the string can't be run", () => {
+    expect(finalStatesOf(endsInOneNFA, "2")).toEqual([]);
+  });
+});
+
+describe("runTestSuite", () => {
+  it("reports the result of each test in order", () => {
+    const results = runTestSuite(endsInOneNFA, [
+      { string: "1", expectedAccept: true },
+      { string: "", expectedAccept: true },
+    ]);
+    expect(results).toEqual([
+      {
+        string: "1",
+        expectedAccept: true,
+        actual: "Accepted",
+        passed: true,
+        finalStates: ["q0", "q1"],
+      },
+      {
+        string: "",
+        expectedAccept: true,
+        actual: "Rejected",
+        passed: false,
+        finalStates: ["q0"],
+      },
+    ]);
+  });
+
+  it("fails every test on a Mealy or Moore machine", () => {
+    const results = runTestSuite(flipMealy, [
+      { string: "01", expectedAccept: true },
+      { string: "01", expectedAccept: false },
+    ]);
+    expect(results.map((result) => result.actual)).toEqual([
+      NotAnAcceptorStatus,
+      NotAnAcceptorStatus,
+    ]);
+    expect(results.every((result) => !result.passed)).toBe(true);
+  });
+});
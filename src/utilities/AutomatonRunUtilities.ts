@@ -0,0 +1,349 @@
+import DFA from "automaton-kit/lib/dfa/DFA";
+import DFARunner, { DFARunnerStatus } from "automaton-kit/lib/dfa/DFARunner";
+import DFAState from "automaton-kit/lib/dfa/DFAState";
+import DFATransition from "automaton-kit/lib/dfa/DFATransition";
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { AutomatonType, isTransducerType } from "../AutomatonType";
+import { convertIDtoLabelOrSymbol } from "./AutomatonUtilities";
+import { NFARunStatus, runNFA } from "./NFAUtilities";
+import { PDARunStatus, runPDA } from "./PDAUtilities";
+import { DefaultTMStepLimit, TMRunStatus, runTM } from "./TMUtilities";
+import { TransducerRunStatus, runTransducer } from "./TransducerUtilities";
+import {
+  TokenizeResult,
+  TokenizeStatus,
+  tokenizeInput,
+} from "./TokenizerUtilities";
+import { traceDeterministicRun } from "./SimulationUtilities";
+import { SerializableTestCase } from "./TestUtilities";
+import { TestReportEntry } from "./TestReportUtilities";
+
+/**
+ * Builds an automaton-kit DFA with the same states, tokens and transitions as
+ * the given automaton. States and tokens are referred to by their labels and
+ * symbols, rather than by ID.
+ * @param {SerializableAutomaton} automaton The automaton to convert.
+ * @returns {DFA} The automaton-kit DFA. Its `getErrors` lists anything that
+ * stops the automaton from being a valid DFA.
+ */
+export function toAutomatonKitDFA(automaton: SerializableAutomaton): DFA {
+  const outputDFA = new DFA();
+  outputDFA.inputAlphabet = automaton.alphabet.map((s) => s.symbol);
+  outputDFA.states = automaton.states.map((s) => new DFAState(s.label));
+  outputDFA.acceptStates = automaton.acceptStates.map((s) => {
+    const label = convertIDtoLabelOrSymbol(s, automaton);
+    return outputDFA.states.find((state) => state.label === label);
+  });
+
+  outputDFA.startState = outputDFA.states.find(
+    (s) =>
+      s.label === convertIDtoLabelOrSymbol(automaton.startState, automaton),
+  );
+
+  outputDFA.transitions = automaton.transitions.flatMap((t) =>
+    t.tokens.map((tokenID) => {
+      const sourceLabel = convertIDtoLabelOrSymbol(t.source, automaton);
+      const tokenSymbol = convertIDtoLabelOrSymbol(tokenID, automaton);
+      const destLabel = convertIDtoLabelOrSymbol(t.dest, automaton);
+
+      return new DFATransition(
+        outputDFA.states.find((s) => s.label === sourceLabel),
+        tokenSymbol,
+        outputDFA.states.find((s) => s.label === destLabel),
+      );
+    }),
+  );
+
+  return outputDFA;
+}
+
+/**
+ * Splits a test string into the tokens of the given automaton's alphabet,
+ * using its token separator if it has one.
+ * @param {SerializableAutomaton} automaton The automaton whose alphabet to
+ * use.
+ * @param {string} testString The string to split.
+ * @returns {TokenizeResult} The outcome of the split, along with the tokens.
+ */
+export function tokenizeForAutomaton(
+  automaton: SerializableAutomaton,
+  testString: string,
+): TokenizeResult {
+  return tokenizeInput(
+    testString,
+    automaton.alphabet.map((tok) => tok.symbol),
+    automaton.tokenSeparator ?? "",
+  );
+}
+
+/**
+ * Runs a string on the given automaton, the same way as testing a string in
+ * the program, but without showing anything. The automaton's `type` decides
+ * how it is run.
+ * @param {SerializableAutomaton} automaton The automaton to run. Its token
+ * selectors must already be filled in, as `StateManager.toSerializable`
+ * does.
+ * @param {string} testString The string to run. It is split into tokens
+ * first.
+ * @returns {string} A human-readable status for the result of the run, such
+ * as `Accepted`, `Rejected`, `Invalid DFA` or, for a Mealy or Moore machine,
+ * the output produced (like `Output: 01`).
+ */
+export function runStringOnAutomaton(
+  automaton: SerializableAutomaton,
+  testString: string,
+): string {
+  // Token symbols can be more than one character long, so the string is
+  // split into tokens before running it
+  const tokenized = tokenizeForAutomaton(automaton, testString);
+  if (tokenized.status === TokenizeStatus.InvalidTokens) {
+    return "Invalid Input Tokens";
+  }
+  if (tokenized.status === TokenizeStatus.Ambiguous) {
+    return "Ambiguous Input Tokens";
+  }
+  const input = tokenized.tokens;
+
+  const type = automaton.type ?? AutomatonType.DFA;
+  if (type === AutomatonType.NFA) {
+    return runOnNFA(automaton, input);
+  }
+  if (type === AutomatonType.PDA) {
+    return runOnPDA(automaton, input);
+  }
+  if (type === AutomatonType.TM) {
+    return runOnTM(automaton, input);
+  }
+  if (isTransducerType(type)) {
+    return runOnTransducer(automaton, input);
+  }
+
+  const runner = new DFARunner(toAutomatonKitDFA(automaton), input);
+  runner.runUntilConclusion();
+
+  switch (runner.getStatus()) {
+    case DFARunnerStatus.NotStarted:
+      return "Not Started";
+    case DFARunnerStatus.InProgress:
+      return "In Progress";
+    case DFARunnerStatus.Accepted:
+      return "Accepted";
+    case DFARunnerStatus.Rejected:
+      return "Rejected";
+    case DFARunnerStatus.InvalidDFA:
+      return "Invalid DFA";
+    case DFARunnerStatus.InvalidInputTokens:
+      return "Invalid Input Tokens";
+    default:
+      return "Unknown Status";
+  }
+}
+
+/**
+ * Checks whether a test passed, given the status of its run.
+ * @param {string} status The status of the run, from `runStringOnAutomaton`.
+ * @param {boolean} expectedAccept Whether the string should be accepted.
+ * @returns {boolean} `true` if the string was accepted exactly when it
+ * should be.
+ */
+export function isTestPassed(status: string, expectedAccept: boolean): boolean {
+  return status === "Accepted" ? expectedAccept : !expectedAccept;
+}
+
+/**
+ * The status given to every test run on a Mealy or Moore machine. These
+ * produce an output instead of accepting or rejecting, so tests that expect
+ * a string to be accepted or rejected can't be checked against them.
+ */
+export const NotAnAcceptorStatus = "Not an Acceptor";
+
+/**
+ * Runs each of the given tests on an automaton. A test passes if the string
+ * is accepted exactly when the test expects it to be. Tests on a Mealy or
+ * Moore machine aren't run, and all fail with `NotAnAcceptorStatus`.
+ * @param {SerializableAutomaton} automaton The automaton to run. Its token
+ * selectors must already be filled in.
+ * @param {Array<SerializableTestCase>} tests The tests to run.
+ * @returns {Array<TestReportEntry>} The result of each test, in the same
+ * order as the tests.
+ */
+export function runTestSuite(
+  automaton: SerializableAutomaton,
+  tests: Array<SerializableTestCase>,
+): Array<TestReportEntry> {
+  if (isTransducerType(automaton.type ?? AutomatonType.DFA)) {
+    return tests.map(
+      (test): TestReportEntry => ({
+        string: test.string,
+        expectedAccept: test.expectedAccept,
+        actual: NotAnAcceptorStatus,
+        passed: false,
+        finalStates: [],
+      }),
+    );
+  }
+
+  return tests.map((test) => {
+    const res = runStringOnAutomaton(automaton, test.string);
+    return {
+      string: test.string,
+      expectedAccept: test.expectedAccept,
+      actual: res,
+      passed: isTestPassed(res, test.expectedAccept),
+      finalStates: finalStatesOf(automaton, test.string),
+    };
+  });
+}
+
+/**
+ * Finds the states the given automaton ends in after running a string. For a
+ * PDA, this is the last state of an accepting branch, since there is no
+ * single state to report otherwise.
+ * @param {SerializableAutomaton} automaton The automaton to run.
+ * @param {string} testString The string to run.
+ * @returns {Array<string>} The labels of the final states, or an empty array
+ * if the automaton couldn't run the string.
+ */
+export function finalStatesOf(
+  automaton: SerializableAutomaton,
+  testString: string,
+): Array<string> {
+  const tokenized = tokenizeForAutomaton(automaton, testString);
+  if (tokenized.status !== TokenizeStatus.Success) {
+    return [];
+  }
+  const input = tokenized.tokens;
+
+  let stateIDs: Array<string>;
+  const type = automaton.type ?? AutomatonType.DFA;
+  if (type === AutomatonType.NFA) {
+    const steps = runNFA(automaton, input).steps;
+    stateIDs = steps.length > 0 ? Array.from(steps[steps.length - 1]) : [];
+  } else if (type === AutomatonType.PDA) {
+    const path = runPDA(automaton, input).path;
+    stateIDs = path.length > 0 ? [path[path.length - 1].state] : [];
+  } else if (type === AutomatonType.TM) {
+    const path = runTM(
+      automaton,
+      input,
+      automaton.tmStepLimit ?? DefaultTMStepLimit,
+    ).path;
+    stateIDs = path.length > 0 ? [path[path.length - 1]] : [];
+  } else {
+    const steps = traceDeterministicRun(automaton, input);
+    stateIDs = steps.length > 0 ? steps[steps.length - 1].states : [];
+  }
+
+  return stateIDs.map(
+    (id) => automaton.states.find((state) => state.id === id)?.label ?? id,
+  );
+}
+
+/**
+ * Runs the given tokens on an automaton as an NFA, following every
+ * nondeterministic branch (including ε transitions) at once.
+ * @param automaton The automaton to run.
+ * @param input The symbols of the tokens in the string to run, in order.
+ * @returns A human-readable status for the result of the run.
+ */
+function runOnNFA(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): string {
+  switch (runNFA(automaton, input).status) {
+    case NFARunStatus.Accepted:
+      return "Accepted";
+    case NFARunStatus.Rejected:
+      return "Rejected";
+    case NFARunStatus.InvalidNFA:
+      return "Invalid NFA";
+    case NFARunStatus.InvalidInputTokens:
+      return "Invalid Input Tokens";
+    default:
+      return "Unknown Status";
+  }
+}
+
+/**
+ * Runs the given tokens on an automaton as a PDA, following every branch of
+ * the computation until one accepts or they all end.
+ * @param automaton The automaton to run.
+ * @param input The symbols of the tokens in the string to run, in order.
+ * @returns A human-readable status for the result of the run.
+ */
+function runOnPDA(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): string {
+  switch (runPDA(automaton, input).status) {
+    case PDARunStatus.Accepted:
+      return "Accepted";
+    case PDARunStatus.Rejected:
+      return "Rejected";
+    case PDARunStatus.InvalidPDA:
+      return "Invalid PDA";
+    case PDARunStatus.InvalidInputTokens:
+      return "Invalid Input Tokens";
+    case PDARunStatus.ConfigurationLimitReached:
+      return "Configuration Limit Reached";
+    default:
+      return "Unknown Status";
+  }
+}
+
+/**
+ * Runs the given tokens on an automaton as a Turing machine, up to the
+ * automaton's step limit.
+ * @param automaton The automaton to run.
+ * @param input The symbols of the tokens in the string to run, in order.
+ * @returns A human-readable status for the result of the run.
+ */
+function runOnTM(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): string {
+  const stepLimit = automaton.tmStepLimit ?? DefaultTMStepLimit;
+  switch (runTM(automaton, input, stepLimit).status) {
+    case TMRunStatus.Accepted:
+      return "Accepted";
+    case TMRunStatus.Rejected:
+      return "Rejected";
+    case TMRunStatus.InvalidTM:
+      return "Invalid TM";
+    case TMRunStatus.InvalidInputTokens:
+      return "Invalid Input Tokens";
+    case TMRunStatus.StepLimitReached:
+      return "Step Limit Reached";
+    default:
+      return "Unknown Status";
+  }
+}
+
+/**
+ * Runs the given tokens on an automaton as a Mealy or Moore machine. Instead
+ * of accepting or rejecting, the machine produces an output string.
+ * @param automaton The automaton to run.
+ * @param input The symbols of the tokens in the string to run, in order.
+ * @returns The output produced, or a human-readable status if the run
+ * couldn't finish.
+ */
+function runOnTransducer(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): string {
+  const result = runTransducer(automaton, input);
+  switch (result.status) {
+    case TransducerRunStatus.Completed:
+      return result.output.length > 0
+        ? `Output: ${result.output.join("")}`
+        : "Output: ε";
+    case TransducerRunStatus.InvalidMachine:
+      return "Invalid Machine";
+    case TransducerRunStatus.InvalidInputTokens:
+      return "Invalid Input Tokens";
+    case TransducerRunStatus.MissingTransition:
+      return "No Transition For Input";
+    default:
+      return "Unknown Status";
+  }
+}
@@ -0,0 +1,226 @@
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+import { PDAAcceptanceMode } from "./PDAUtilities";
+
+/**
+ * The possible outcomes of building the computation tree of an input string.
+ *
+ * - `Built` - The tree was built (though it may have been cut short; see
+ * `ComputationTreeResult.isTruncated`).
+ * - `InvalidMachine` - The machine could not be run, because it has no start
+ * state.
+ * - `InvalidInputTokens` - The input contained a symbol that is not in the
+ * automaton's alphabet.
+ */
+export enum ComputationTreeStatus {
+  Built,
+  InvalidMachine,
+  InvalidInputTokens,
+}
+
+/** A configuration of the machine in a computation tree. */
+export interface ComputationTreeNode {
+  /** The ID of the state the machine is in. */
+  state: string;
+
+  /** How many input tokens have been consumed so far. */
+  position: number;
+
+  /**
+   * The IDs of the symbols on the stack, from the top down, or `null` if
+   * the machine has no stack.
+   */
+  stack: Array<string> | null;
+
+  /**
+   * The symbol of the token consumed to get here from the parent
+   * configuration, or `null` if no token was consumed (an ε move, or the
+   * root of the tree).
+   */
+  token: string | null;
+
+  /**
+   * The ID of the transition followed to get here from the parent
+   * configuration, or `null` for the root of the tree.
+   */
+  transition: string | null;
+
+  /** Whether the machine accepts the input in this configuration. */
+  isAccepting: boolean;
+
+  /**
+   * Whether the same configuration already appears higher up this branch,
+   * in which case the branch loops and isn't followed any further.
+   */
+  isRepeated: boolean;
+
+  /** The configurations the machine can move to from this one. */
+  children: Array<ComputationTreeNode>;
+}
+
+/** The result of building the computation tree of an input string. */
+export interface ComputationTreeResult {
+  /** How building the tree concluded. */
+  status: ComputationTreeStatus;
+
+  /**
+   * The initial configuration, with the rest of the tree below it, or
+   * `null` if the tree couldn't be built.
+   */
+  root: ComputationTreeNode | null;
+
+  /**
+   * Whether the tree was cut short because it grew past the limit on the
+   * number of configurations.
+   */
+  isTruncated: boolean;
+}
+
+/**
+ * The most configurations `buildComputationTree` adds to a tree by default,
+ * since the number of branches can grow exponentially with the input.
+ */
+export const DefaultMaxComputationTreeNodes = 500;
+
+/**
+ * Builds the tree of every computation of an input string on an NFA or a
+ * PDA. Each node of the tree is a configuration of the machine, and each of
+ * its children is a configuration the machine can move to from it in one
+ * step, either by consuming the next token or by an ε move. The tree is
+ * built breadth-first, so if it is cut short, every branch is followed to
+ * the same depth.
+ * @param {SerializableAutomaton} automaton The machine to run. If its `type`
+ * is PDA, its transitions' `pdaRules` are used, and its `pdaAcceptance`
+ * decides how strings are accepted. Otherwise, it is run as an NFA.
+ * @param {Array<string>} input The symbols of the input string, in order.
+ * @param {number} [maxNodes] The most configurations to add to the tree.
+ * @returns {ComputationTreeResult} The tree, along with how building it
+ * concluded.
+ */
+export function buildComputationTree(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+  maxNodes: number = DefaultMaxComputationTreeNodes,
+): ComputationTreeResult {
+  if (!automaton.states.some((state) => state.id === automaton.startState)) {
+    return {
+      status: ComputationTreeStatus.InvalidMachine,
+      root: null,
+      isTruncated: false,
+    };
+  }
+
+  const tokenIDs = input.map(
+    (symbol) => automaton.alphabet.find((tok) => tok.symbol === symbol)?.id,
+  );
+  if (tokenIDs.some((id) => id === undefined)) {
+    return {
+      status: ComputationTreeStatus.InvalidInputTokens,
+      root: null,
+      isTruncated: false,
+    };
+  }
+
+  const isPDA = automaton.type === AutomatonType.PDA;
+  const acceptByEmptyStack =
+    isPDA && automaton.pdaAcceptance === PDAAcceptanceMode.EmptyStack;
+
+  const makeNode = (
+    state: string,
+    position: number,
+    stack: Array<string> | null,
+    token: string | null,
+    transition: string | null,
+  ): ComputationTreeNode => ({
+    state: state,
+    position: position,
+    stack: stack,
+    token: token,
+    transition: transition,
+    isAccepting:
+      position === tokenIDs.length &&
+      (acceptByEmptyStack
+        ? stack.length === 0
+        : automaton.acceptStates.includes(state)),
+    isRepeated: false,
+    children: [],
+  });
+
+  // Every configuration the machine can move to from the given one
+  const movesFrom = (node: ComputationTreeNode): Array<ComputationTreeNode> => {
+    const nextTokenID =
+      node.position < tokenIDs.length ? tokenIDs[node.position] : undefined;
+    const moves: Array<ComputationTreeNode> = [];
+    automaton.transitions
+      .filter((trans) => trans.source === node.state)
+      .forEach((trans) => {
+        if (isPDA) {
+          (trans.pdaRules ?? []).forEach((rule) => {
+            if (rule.input !== null && rule.input !== nextTokenID) return;
+            if (rule.pop !== null && node.stack[0] !== rule.pop) return;
+            moves.push(
+              makeNode(
+                trans.dest,
+                node.position + (rule.input !== null ? 1 : 0),
+                [...rule.push, ...node.stack.slice(rule.pop !== null ? 1 : 0)],
+                rule.input !== null ? input[node.position] : null,
+                trans.id,
+              ),
+            );
+          });
+          return;
+        }
+
+        if (trans.isEpsilonTransition) {
+          moves.push(makeNode(trans.dest, node.position, null, null, trans.id));
+        }
+        if (nextTokenID !== undefined && trans.tokens.includes(nextTokenID)) {
+          moves.push(
+            makeNode(
+              trans.dest,
+              node.position + 1,
+              null,
+              input[node.position],
+              trans.id,
+            ),
+          );
+        }
+      });
+    return moves;
+  };
+
+  const keyFor = (node: ComputationTreeNode) =>
+    `${node.state}|${node.position}|${node.stack?.join(",") ?? ""}`;
+
+  const root = makeNode(automaton.startState, 0, isPDA ? [] : null, null, null);
+  let nodeCount = 1;
+  let isTruncated = false;
+
+  // Each configuration still to expand, along with the keys of the
+  // configurations on the branch leading to it
+  const toExpand = [{ node: root, branch: [keyFor(root)] }];
+  while (toExpand.length > 0 && !isTruncated) {
+    const { node, branch } = toExpand.shift();
+    for (const child of movesFrom(node)) {
+      if (nodeCount >= maxNodes) {
+        isTruncated = true;
+        break;
+      }
+      nodeCount++;
+      node.children.push(child);
+
+      const key = keyFor(child);
+      if (branch.includes(key)) {
+        child.isRepeated = true;
+      } else {
+        toExpand.push({ node: child, branch: [...branch, key] });
+      }
+    }
+  }
+
+  return {
+    status: ComputationTreeStatus.Built,
+    root: root,
+    isTruncated: isTruncated,
+  };
+}
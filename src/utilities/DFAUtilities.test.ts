@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { addTrapState, isTrapState } from "./DFAUtilities";
+
+/** A DFA over {a, b} that accepts only "a", missing most transitions. */
+const onlyA: SerializableAutomaton = {
+  states: [
+    { id: "s0", x: 0, y: 0, label: "q0" },
+    { id: "s1", x: 100, y: 0, label: "q1" },
+  ],
+  alphabet: [
+    { id: "ta", symbol: "a" },
+    { id: "tb", symbol: "b" },
+  ],
+  transitions: [
+    {
+      id: "r0",
+      source: "s0",
+      dest: "s1",
+      isEpsilonTransition: false,
+      tokens: ["ta"],
+    },
+  ],
+  startState: "s0",
+  acceptStates: ["s1"],
+};
+
+describe("isTrapState", () => {
+  it("recognizes the state added by addTrapState", () => {
+    const completed = addTrapState(onlyA);
+    const trap = completed.states[completed.states.length - 1];
+    expect(isTrapState(completed, trap.id)).toBe(true);
+    expect(isTrapState(completed, "s0")).toBe(false);
+  });
+
+  it("doesn't count accept states or states missing a token", () => {
+    const loopsOnA: SerializableAutomaton = {
+      ...onlyA,
+      transitions: [
+        ...onlyA.transitions,
+        {
+          id: "r1",
+          source: "s1",
+          dest: "s1",
+          isEpsilonTransition: false,
+          tokens: ["ta", "tb"],
+        },
+      ],
+    };
+    expect(isTrapState(loopsOnA, "s1")).toBe(false);
+    expect(isTrapState({ ...loopsOnA, acceptStates: [] }, "s1")).toBe(true);
+    expect(isTrapState(onlyA, "s1")).toBe(false);
+  });
+
+  it("recognizes a trap state with a separate loop for each token", () => {
+    const trap: SerializableAutomaton = {
+      ...onlyA,
+      acceptStates: [],
+      transitions: ["ta", "tb"].map((tokenID) => ({
+        id: `loop-${tokenID}`,
+        source: "s1",
+        dest: "s1",
+        isEpsilonTransition: false,
+        tokens: [tokenID],
+      })),
+    };
+    expect(isTrapState(trap, "s1")).toBe(true);
+  });
+
+  it("doesn't count states that only lead to a trap state", () => {
+    const completed = addTrapState({ ...onlyA, acceptStates: [] });
+    // q0 and q1 can't reach an accept state either, but they don't loop
+    // back to themselves
+    expect(isTrapState(completed, "s0")).toBe(false);
+    expect(isTrapState(completed, "s1")).toBe(false);
+  });
+});
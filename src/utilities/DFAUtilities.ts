@@ -0,0 +1,357 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  SerializableAutomaton,
+  SerializableState,
+  SerializableTransition,
+} from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+
+/**
+ * Finds every state that can be reached from the start state by following
+ * transitions (on any token, including ε).
+ * @param {SerializableAutomaton} automaton The automaton to search.
+ * @returns {Set<string>} The IDs of the reachable states, including the
+ * start state itself. Empty if the automaton has no start state.
+ */
+export function reachableStates(automaton: SerializableAutomaton): Set<string> {
+  const reachable = new Set<string>();
+  if (!automaton.states.some((state) => state.id === automaton.startState)) {
+    return reachable;
+  }
+
+  reachable.add(automaton.startState);
+  const toVisit = [automaton.startState];
+  while (toVisit.length > 0) {
+    const current = toVisit.pop();
+    automaton.transitions.forEach((trans) => {
+      if (trans.source === current && !reachable.has(trans.dest)) {
+        reachable.add(trans.dest);
+        toVisit.push(trans.dest);
+      }
+    });
+  }
+
+  return reachable;
+}
+
+/**
+ * Builds a lookup table for the transition function of a DFA.
+ * @param {SerializableAutomaton} automaton The DFA to build the table for.
+ * @returns {Map<string, Map<string, string>>} A map from each state ID to a
+ * map from each token ID to the ID of the destination state.
+ */
+export function transitionTable(
+  automaton: SerializableAutomaton,
+): Map<string, Map<string, string>> {
+  const table = new Map<string, Map<string, string>>();
+  automaton.states.forEach((state) => table.set(state.id, new Map()));
+  automaton.transitions.forEach((trans) => {
+    trans.tokens.forEach((tokenID) => {
+      table.get(trans.source)?.set(tokenID, trans.dest);
+    });
+  });
+  return table;
+}
+
+/**
+ * Minimizes a DFA. Unreachable states are removed first, then equivalent
+ * states are merged using Hopcroft's partition refinement algorithm.
+ *
+ * Each state of the result stands for a group of equivalent states in the
+ * original DFA. It is labeled with their labels separated by commas (e.g.
+ * `q1,q3`), so it is easy to see which states were merged, and is placed
+ * where the first of those states was.
+ * @param {SerializableAutomaton} automaton The DFA to minimize. It must be
+ * complete (one transition out of every state for each token), with no ε
+ * transitions and a start state.
+ * @returns {SerializableAutomaton} The minimal DFA. It uses the same
+ * alphabet (including token IDs) as the original DFA.
+ */
+export function minimizeDFA(
+  automaton: SerializableAutomaton,
+): SerializableAutomaton {
+  const reachable = reachableStates(automaton);
+  const states = automaton.states.filter((state) => reachable.has(state.id));
+  const table = transitionTable(automaton);
+  const tokenIDs = automaton.alphabet.map((tok) => tok.id);
+
+  // Start with accepting and non-accepting states in separate blocks
+  const accepting = new Set(
+    states
+      .filter((state) => automaton.acceptStates.includes(state.id))
+      .map((state) => state.id),
+  );
+  const rejecting = new Set(
+    states.filter((state) => !accepting.has(state.id)).map((state) => state.id),
+  );
+  let partition = [accepting, rejecting].filter((block) => block.size > 0);
+
+  // Blocks that still need to be used to split other blocks
+  const waiting = [...partition];
+
+  while (waiting.length > 0) {
+    const splitter = waiting.pop();
+
+    tokenIDs.forEach((tokenID) => {
+      // The states that move into the splitter on this token
+      const movesIntoSplitter = new Set(
+        states
+          .filter((state) => splitter.has(table.get(state.id).get(tokenID)))
+          .map((state) => state.id),
+      );
+
+      const newPartition: Array<Set<string>> = [];
+      partition.forEach((block) => {
+        const inside = new Set(
+          Array.from(block).filter((id) => movesIntoSplitter.has(id)),
+        );
+        const outside = new Set(
+          Array.from(block).filter((id) => !movesIntoSplitter.has(id)),
+        );
+
+        if (inside.size === 0 || outside.size === 0) {
+          newPartition.push(block);
+          return;
+        }
+
+        newPartition.push(inside, outside);
+        const waitingIndex = waiting.indexOf(block);
+        if (waitingIndex >= 0) {
+          waiting.splice(waitingIndex, 1, inside, outside);
+        } else {
+          waiting.push(inside.size <= outside.size ? inside : outside);
+        }
+      });
+      partition = newPartition;
+    });
+  }
+
+  // Build one new state for each block, keeping the original state order
+  const blockOf = new Map<string, Set<string>>();
+  partition.forEach((block) => block.forEach((id) => blockOf.set(id, block)));
+
+  const newStateIDs = new Map<Set<string>, string>();
+  const newStates: Array<SerializableState> = [];
+  const newAcceptStates: Array<string> = [];
+  states.forEach((state) => {
+    const block = blockOf.get(state.id);
+    if (newStateIDs.has(block)) {
+      return;
+    }
+
+    const id = uuidv4();
+    newStateIDs.set(block, id);
+    newStates.push({
+      id: id,
+      x: state.x,
+      y: state.y,
+      label: states
+        .filter((other) => block.has(other.id))
+        .map((other) => other.label)
+        .join(","),
+    });
+    if (accepting.has(state.id)) {
+      newAcceptStates.push(id);
+    }
+  });
+
+  // Every state in a block behaves the same way, so the first state in each
+  // block can stand in for the rest when building transitions
+  const newTransitions: Array<SerializableTransition> = [];
+  newStateIDs.forEach((sourceID, block) => {
+    const representative = block.values().next().value;
+    const tokensByDest = new Map<string, Array<string>>();
+    tokenIDs.forEach((tokenID) => {
+      const destID = newStateIDs.get(
+        blockOf.get(table.get(representative).get(tokenID)),
+      );
+      if (!tokensByDest.has(destID)) {
+        tokensByDest.set(destID, []);
+      }
+      tokensByDest.get(destID).push(tokenID);
+    });
+
+    tokensByDest.forEach((tokens, destID) => {
+      newTransitions.push({
+        id: uuidv4(),
+        source: sourceID,
+        dest: destID,
+        isEpsilonTransition: false,
+        tokens: tokens,
+      });
+    });
+  });
+
+  return {
+    states: newStates,
+    alphabet: automaton.alphabet.map((tok) => ({ ...tok })),
+    transitions: newTransitions,
+    startState: newStateIDs.get(blockOf.get(automaton.startState)),
+    acceptStates: newAcceptStates,
+    type: AutomatonType.DFA,
+  };
+}
+
+/**
+ * Checks whether an automaton follows the rules for a DFA's transitions: no
+ * ε transitions, and at most one transition out of each state for each
+ * token. Missing transitions are allowed.
+ * @param {SerializableAutomaton} automaton The automaton to check.
+ * @returns {boolean} Whether the automaton is deterministic.
+ */
+export function isDeterministic(automaton: SerializableAutomaton): boolean {
+  const seen = new Set<string>();
+  return automaton.transitions.every((trans) => {
+    if (trans.isEpsilonTransition) {
+      return false;
+    }
+    return trans.tokens.every((tokenID) => {
+      const key = `${trans.source},${tokenID}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  });
+}
+
+/**
+ * Finds the tokens each state has no transition for.
+ * @param {SerializableAutomaton} automaton The automaton to check.
+ * @returns {Map<string, Array<string>>} A map from the ID of each state
+ * missing any transitions to the IDs of the tokens it is missing, in
+ * alphabet order. States with no missing transitions are not included.
+ */
+export function missingTransitions(
+  automaton: SerializableAutomaton,
+): Map<string, Array<string>> {
+  const missing = new Map<string, Array<string>>();
+  automaton.states.forEach((state) => {
+    const missingTokens = automaton.alphabet
+      .map((tok) => tok.id)
+      .filter(
+        (tokenID) =>
+          !automaton.transitions.some(
+            (trans) =>
+              trans.source === state.id && trans.tokens.includes(tokenID),
+          ),
+      );
+    if (missingTokens.length > 0) {
+      missing.set(state.id, missingTokens);
+    }
+  });
+  return missing;
+}
+
+/**
+ * Checks whether a state is a trap state: a non-accepting state whose
+ * transitions all loop back to itself, covering every token. Such a state is
+ * there on purpose (such as one added by `addTrapState`) to reject every
+ * string that reaches it.
+ * @param {SerializableAutomaton} automaton The automaton the state is in.
+ * @param {string} stateID The ID of the state to check.
+ * @returns {boolean} Whether the state is a trap state.
+ */
+export function isTrapState(
+  automaton: SerializableAutomaton,
+  stateID: string,
+): boolean {
+  if (automaton.acceptStates.includes(stateID)) {
+    return false;
+  }
+
+  const outgoing = automaton.transitions.filter(
+    (trans) => trans.source === stateID,
+  );
+  return (
+    automaton.alphabet.length > 0 &&
+    outgoing.every((trans) => trans.dest === stateID) &&
+    automaton.alphabet.every((tok) =>
+      outgoing.some((trans) => trans.tokens.includes(tok.id)),
+    )
+  );
+}
+
+/**
+ * Completes an automaton by adding a trap state: a non-accepting state that
+ * loops back to itself on every token. Every state that has no transition
+ * for some tokens gets a single transition to the trap state on all of
+ * them. The trap state is labeled `trap` (or `trap1`, `trap2` and so on if
+ * that label is taken) and placed to the right of the other states.
+ * @param {SerializableAutomaton} automaton The automaton to complete. It is
+ * not modified.
+ * @returns {SerializableAutomaton} A copy of the automaton with the trap
+ * state and its transitions added at the end of the state and transition
+ * lists, or an unchanged copy if no transitions were missing.
+ */
+export function addTrapState(
+  automaton: SerializableAutomaton,
+): SerializableAutomaton {
+  const missing = missingTransitions(automaton);
+  if (missing.size === 0) {
+    return { ...automaton };
+  }
+
+  const trapID = uuidv4();
+  const newTransitions: Array<SerializableTransition> = [];
+  missing.forEach((missingTokens, stateID) => {
+    newTransitions.push({
+      id: uuidv4(),
+      source: stateID,
+      dest: trapID,
+      isEpsilonTransition: false,
+      tokens: missingTokens,
+    });
+  });
+
+  const labels = automaton.states.map((state) => state.label);
+  let label = "trap";
+  for (let i = 1; labels.includes(label); i++) {
+    label = `trap${i}`;
+  }
+
+  const xs = automaton.states.map((state) => state.x);
+  const ys = automaton.states.map((state) => state.y);
+  const trapState: SerializableState = {
+    id: trapID,
+    x: Math.max(...xs) + 150,
+    y: ys.reduce((sum, y) => sum + y, 0) / ys.length,
+    label: label,
+  };
+  newTransitions.push({
+    id: uuidv4(),
+    source: trapID,
+    dest: trapID,
+    isEpsilonTransition: false,
+    tokens: automaton.alphabet.map((tok) => tok.id),
+  });
+
+  return {
+    ...automaton,
+    states: [...automaton.states, trapState],
+    transitions: [...automaton.transitions, ...newTransitions],
+  };
+}
+
+/**
+ * Builds a DFA that accepts exactly the strings the given DFA rejects. The
+ * DFA is completed with a trap state first (see `addTrapState`), then every
+ * accept state becomes a non-accepting state and vice versa.
+ * @param {SerializableAutomaton} automaton The DFA to complement. It must be
+ * deterministic (see `isDeterministic`), but may be missing transitions.
+ * @returns {SerializableAutomaton} The complement DFA. It uses the same
+ * states, alphabet and transitions (including IDs) as the original DFA.
+ */
+export function complementDFA(
+  automaton: SerializableAutomaton,
+): SerializableAutomaton {
+  const complete = addTrapState(automaton);
+  return {
+    ...complete,
+    acceptStates: complete.states
+      .filter((state) => !complete.acceptStates.includes(state.id))
+      .map((state) => state.id),
+    type: AutomatonType.DFA,
+  };
+}
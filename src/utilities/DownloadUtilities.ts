@@ -0,0 +1,24 @@
+/**
+ * Downloads a text file to the user's device.
+ * @param {string} contents The text to write to the file.
+ * @param {string} fileName The name to suggest for the file.
+ * @param {string} [mimeType] The type of the file's contents.
+ */
+export function downloadTextFile(
+  contents: string,
+  fileName: string,
+  mimeType: string = "text/plain",
+) {
+  // Adapted from https://stackoverflow.com/a/18197341, as in
+  // `StateManager.downloadJSON`
+  const el = document.createElement("a");
+  el.setAttribute(
+    "href",
+    `data:${mimeType};charset=utf-8,` + encodeURIComponent(contents),
+  );
+  el.setAttribute("download", fileName);
+  el.style.display = "none";
+  document.body.appendChild(el);
+  el.click();
+  document.body.removeChild(el);
+}
@@ -0,0 +1,115 @@
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { SerializableTestCase } from "./TestUtilities";
+import { TestReportEntry, csvField } from "./TestReportUtilities";
+import { expandTokenSelectors } from "./TokenSelectorUtilities";
+import { isValidAutomaton } from "./ValidationUtilities";
+import { runTestSuite } from "./AutomatonRunUtilities";
+
+/** The grade of a single submitted automaton file. */
+export interface SubmissionGrade {
+  /** The name of the submitted file. */
+  fileName: string;
+
+  /**
+   * Why the submission couldn't be graded, such as the file not being a
+   * valid automaton, or `null` if it was graded.
+   */
+  error: string | null;
+
+  /** How many tests passed. */
+  passed: number;
+
+  /** How many tests were run. */
+  total: number;
+
+  /** The result of each test, in the same order as the tests. */
+  results: Array<TestReportEntry>;
+}
+
+/**
+ * Grades a submitted automaton by running every test on it. The automaton
+ * is only run, never shown, so the automaton being edited isn't affected.
+ * @param {string} fileName The name of the submitted file.
+ * @param {unknown} json The contents of the file, parsed as JSON.
+ * @param {Array<SerializableTestCase>} tests The tests to run.
+ * @returns {SubmissionGrade} The grade. If the file isn't a valid automaton,
+ * no tests are run and the grade says why.
+ */
+export function gradeSubmission(
+  fileName: string,
+  json: unknown,
+  tests: Array<SerializableTestCase>,
+): SubmissionGrade {
+  const [isValid, message] =
+    typeof json === "object" && json !== null
+      ? isValidAutomaton(json as SerializableAutomaton)
+      : [false, "The file does not contain an automaton."];
+  if (!isValid) {
+    return {
+      fileName: fileName,
+      error: message,
+      passed: 0,
+      total: tests.length,
+      results: [],
+    };
+  }
+
+  const results = runTestSuite(
+    expandTokenSelectors(json as SerializableAutomaton),
+    tests,
+  );
+  return {
+    fileName: fileName,
+    error: null,
+    passed: results.filter((result) => result.passed).length,
+    total: tests.length,
+    results: results,
+  };
+}
+
+/**
+ * Writes a scoreboard of graded submissions as CSV. Each row is a
+ * submission, with its pass count and score, followed by whether it passed
+ * each test (with the test strings as the column headers).
+ * @param {Array<SubmissionGrade>} grades The grade of each submission.
+ * @param {Array<SerializableTestCase>} tests The tests that were run.
+ * @returns {string} The scoreboard.
+ */
+export function gradesToCSV(
+  grades: Array<SubmissionGrade>,
+  tests: Array<SerializableTestCase>,
+): string {
+  const rows = [
+    [
+      "file",
+      "passed",
+      "total",
+      "score",
+      "error",
+      ...tests.map((test) => (test.string === "" ? "ε" : test.string)),
+    ],
+  ];
+  grades.forEach((grade) =>
+    rows.push([
+      grade.fileName,
+      `${grade.passed}`,
+      `${grade.total}`,
+      grade.total > 0
+        ? `${Math.round((grade.passed / grade.total) * 100)}%`
+        : "",
+      grade.error ?? "",
+      ...grade.results.map((result) => (result.passed ? "pass" : "fail")),
+    ]),
+  );
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Writes the grades of submissions as JSON, including the result of every
+ * test for each submission.
+ * @param {Array<SubmissionGrade>} grades The grade of each submission.
+ * @returns {string} The grades.
+ */
+export function gradesToJSON(grades: Array<SubmissionGrade>): string {
+  return JSON.stringify(grades, null, 4);
+}
@@ -0,0 +1,73 @@
+import { SerializableAutomaton } from "../SerializableAutomaton";
+
+/** The horizontal distance between columns of states in a generated layout. */
+const ColumnSpacing = 150;
+
+/** The vertical distance between states in the same column. */
+const RowSpacing = 120;
+
+/**
+ * Positions the states of an automaton automatically. States are arranged
+ * in columns by how many transitions it takes to reach them from the start
+ * state, so the diagram reads from left to right. Any states that can't be
+ * reached from the start state are placed in one last column.
+ * @param {SerializableAutomaton} automaton The automaton to lay out. It is
+ * not modified.
+ * @param {{x: number, y: number}} [origin] Where to place the start state.
+ * Each column is vertically centered on this point.
+ * @returns {SerializableAutomaton} A copy of the automaton with the new
+ * state positions.
+ */
+export function layoutAutomaton(
+  automaton: SerializableAutomaton,
+  origin: { x: number; y: number } = { x: 0, y: 0 },
+): SerializableAutomaton {
+  // Breadth-first search from the start state to find each state's column
+  const columnOf = new Map<string, number>();
+  const toVisit: Array<string> = [];
+  if (automaton.states.some((state) => state.id === automaton.startState)) {
+    columnOf.set(automaton.startState, 0);
+    toVisit.push(automaton.startState);
+  }
+
+  while (toVisit.length > 0) {
+    const current = toVisit.shift();
+    automaton.transitions
+      .filter((trans) => trans.source === current)
+      .forEach((trans) => {
+        if (!columnOf.has(trans.dest)) {
+          columnOf.set(trans.dest, columnOf.get(current) + 1);
+          toVisit.push(trans.dest);
+        }
+      });
+  }
+
+  const lastColumn = Math.max(-1, ...Array.from(columnOf.values())) + 1;
+  const columns: Array<Array<string>> = [];
+  automaton.states.forEach((state) => {
+    const column = columnOf.get(state.id) ?? lastColumn;
+    if (!columns[column]) {
+      columns[column] = [];
+    }
+    columns[column].push(state.id);
+  });
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, columnIndex) => {
+    const columnHeight = (column.length - 1) * RowSpacing;
+    column.forEach((id, rowIndex) => {
+      positions.set(id, {
+        x: origin.x + columnIndex * ColumnSpacing,
+        y: origin.y - columnHeight / 2 + rowIndex * RowSpacing,
+      });
+    });
+  });
+
+  return {
+    ...automaton,
+    states: automaton.states.map((state) => ({
+      ...state,
+      ...positions.get(state.id),
+    })),
+  };
+}
@@ -0,0 +1,228 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  SerializableAutomaton,
+  SerializableState,
+  SerializableTransition,
+} from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+
+/**
+ * The possible outcomes of running an input string on an NFA.
+ *
+ * - `Accepted` - At least one of the active states was an accept state once
+ * the whole input was consumed.
+ * - `Rejected` - None of the active states were accept states once the whole
+ * input was consumed (or every branch died along the way).
+ * - `InvalidNFA` - The NFA could not be run, because it has no start state.
+ * - `InvalidInputTokens` - The input contained a symbol that is not in the
+ * automaton's alphabet.
+ */
+export enum NFARunStatus {
+  Accepted,
+  Rejected,
+  InvalidNFA,
+  InvalidInputTokens,
+}
+
+/** The result of running an input string on an NFA. */
+export interface NFARunResult {
+  /** How the run concluded. */
+  status: NFARunStatus;
+
+  /**
+   * The IDs of the active states before any input is consumed, followed by
+   * the IDs of the active states after each token is consumed. Epsilon
+   * closures are already included in every step.
+   */
+  steps: Array<Set<string>>;
+}
+
+/**
+ * Finds every state reachable from the given states using only transitions
+ * on the empty string (ε). The given states are included in the result.
+ * @param {SerializableAutomaton} automaton The automaton to search.
+ * @param {Iterable<string>} stateIDs The IDs of the states to start from.
+ * @returns {Set<string>} The IDs of all states in the epsilon closure.
+ */
+export function epsilonClosure(
+  automaton: SerializableAutomaton,
+  stateIDs: Iterable<string>,
+): Set<string> {
+  const closure = new Set<string>(stateIDs);
+  const toVisit = Array.from(closure);
+
+  while (toVisit.length > 0) {
+    const current = toVisit.pop();
+    automaton.transitions.forEach((trans) => {
+      if (
+        trans.isEpsilonTransition &&
+        trans.source === current &&
+        !closure.has(trans.dest)
+      ) {
+        closure.add(trans.dest);
+        toVisit.push(trans.dest);
+      }
+    });
+  }
+
+  return closure;
+}
+
+/**
+ * Finds every state that can be entered from the given states by consuming
+ * a single token. Epsilon closure is *not* applied to the result.
+ * @param {SerializableAutomaton} automaton The automaton to search.
+ * @param {Set<string>} stateIDs The IDs of the states to move from.
+ * @param {string} tokenID The ID of the token being consumed.
+ * @returns {Set<string>} The IDs of the states that were moved to.
+ */
+export function move(
+  automaton: SerializableAutomaton,
+  stateIDs: Set<string>,
+  tokenID: string,
+): Set<string> {
+  const result = new Set<string>();
+  automaton.transitions.forEach((trans) => {
+    if (stateIDs.has(trans.source) && trans.tokens.includes(tokenID)) {
+      result.add(trans.dest);
+    }
+  });
+  return result;
+}
+
+/**
+ * Runs an input string on the given automaton, treating it as an NFA. Every
+ * branch of the computation is followed at once by tracking the set of
+ * active states.
+ * @param {SerializableAutomaton} automaton The automaton to run.
+ * @param {Array<string>} input The symbols of the input string, in order.
+ * @returns {NFARunResult} The outcome of the run, along with the set of
+ * active states at each step.
+ */
+export function runNFA(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): NFARunResult {
+  if (!automaton.startState) {
+    return { status: NFARunStatus.InvalidNFA, steps: [] };
+  }
+
+  const tokenIDs = input.map(
+    (symbol) => automaton.alphabet.find((tok) => tok.symbol === symbol)?.id,
+  );
+  if (tokenIDs.some((id) => id === undefined)) {
+    return { status: NFARunStatus.InvalidInputTokens, steps: [] };
+  }
+
+  let active = epsilonClosure(automaton, [automaton.startState]);
+  const steps = [active];
+  tokenIDs.forEach((tokenID) => {
+    active = epsilonClosure(automaton, move(automaton, active, tokenID));
+    steps.push(active);
+  });
+
+  const accepted = automaton.acceptStates.some((id) => active.has(id));
+  return {
+    status: accepted ? NFARunStatus.Accepted : NFARunStatus.Rejected,
+    steps: steps,
+  };
+}
+
+/**
+ * Converts the given automaton into an equivalent DFA using the subset
+ * construction. Each state of the resulting DFA represents a set of states
+ * in the original automaton, and is labeled with their labels (e.g.
+ * `{q0,q2}`). Only sets reachable from the start state are created. If any
+ * state has no way forward on some token, a `∅` state is added to catch it,
+ * so the resulting DFA is always complete.
+ *
+ * The states of the result are all placed at (0, 0); use `layoutAutomaton`
+ * to position them.
+ * @param {SerializableAutomaton} automaton The automaton to convert. It must
+ * have a start state.
+ * @returns {SerializableAutomaton} The equivalent DFA. It uses the same
+ * alphabet (including token IDs) as the original automaton.
+ */
+export function subsetConstruction(
+  automaton: SerializableAutomaton,
+): SerializableAutomaton {
+  // Keep the states in each set in the same order as the original automaton,
+  // so that labels are predictable (e.g. "{q0,q2}" rather than "{q2,q0}").
+  const stateOrder = automaton.states.map((state) => state.id);
+  const keyForSet = (set: Set<string>) =>
+    stateOrder.filter((id) => set.has(id)).join(",");
+  const labelForSet = (set: Set<string>) => {
+    if (set.size === 0) {
+      return "∅";
+    }
+    const labels = automaton.states
+      .filter((state) => set.has(state.id))
+      .map((state) => state.label);
+    return `{${labels.join(",")}}`;
+  };
+
+  const states: Array<SerializableState> = [];
+  const transitions: Array<SerializableTransition> = [];
+  const acceptStates: Array<string> = [];
+
+  // Maps the key for a set of original states to the ID of the new state
+  const newStateIDs = new Map<string, string>();
+  const toVisit: Array<Set<string>> = [];
+
+  const addStateForSet = (set: Set<string>): string => {
+    const key = keyForSet(set);
+    if (newStateIDs.has(key)) {
+      return newStateIDs.get(key);
+    }
+
+    const id = uuidv4();
+    newStateIDs.set(key, id);
+    states.push({ id: id, x: 0, y: 0, label: labelForSet(set) });
+    if (automaton.acceptStates.some((accept) => set.has(accept))) {
+      acceptStates.push(id);
+    }
+    toVisit.push(set);
+    return id;
+  };
+
+  const startState = addStateForSet(
+    epsilonClosure(automaton, [automaton.startState]),
+  );
+
+  while (toVisit.length > 0) {
+    const current = toVisit.shift();
+    const sourceID = newStateIDs.get(keyForSet(current));
+
+    // Group tokens by destination, so that there is only one transition
+    // between each pair of states
+    const tokensByDest = new Map<string, Array<string>>();
+    automaton.alphabet.forEach((tok) => {
+      const destID = addStateForSet(
+        epsilonClosure(automaton, move(automaton, current, tok.id)),
+      );
+      if (!tokensByDest.has(destID)) {
+        tokensByDest.set(destID, []);
+      }
+      tokensByDest.get(destID).push(tok.id);
+    });
+
+    tokensByDest.forEach((tokens, destID) => {
+      transitions.push({
+        id: uuidv4(),
+        source: sourceID,
+        dest: destID,
+        isEpsilonTransition: false,
+        tokens: tokens,
+      });
+    });
+  }
+
+  return {
+    states: states,
+    alphabet: automaton.alphabet.map((tok) => ({ ...tok })),
+    transitions: transitions,
+    startState: startState,
+    acceptStates: acceptStates,
+    type: AutomatonType.DFA,
+  };
+}
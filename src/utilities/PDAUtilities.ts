@@ -0,0 +1,176 @@
+import { SerializableAutomaton } from "../SerializableAutomaton";
+
+/**
+ * The ways a pushdown automaton can decide to accept a string. The value of
+ * each entry is what gets written to saved automaton files.
+ *
+ * - `FinalState` - The string is accepted if, once all of it is consumed,
+ * the PDA can be in an accept state.
+ * - `EmptyStack` - The string is accepted if, once all of it is consumed,
+ * the PDA can have an empty stack.
+ */
+export enum PDAAcceptanceMode {
+  FinalState = "finalState",
+  EmptyStack = "emptyStack",
+}
+
+/**
+ * Checks if the given value is one of the known PDA acceptance modes.
+ * @param value The value to check, usually read from a saved automaton file.
+ * @returns {boolean} `true` if the value is a valid `PDAAcceptanceMode`, and
+ * `false` otherwise.
+ */
+export function isPDAAcceptanceMode(
+  value: unknown,
+): value is PDAAcceptanceMode {
+  return Object.values(PDAAcceptanceMode).includes(value as PDAAcceptanceMode);
+}
+
+/**
+ * The possible outcomes of running an input string on a PDA.
+ *
+ * - `Accepted` - Some branch of the computation accepted the string.
+ * - `Rejected` - Every branch of the computation ended without accepting.
+ * - `InvalidPDA` - The PDA could not be run, because it has no start state.
+ * - `InvalidInputTokens` - The input contained a symbol that is not in the
+ * automaton's alphabet.
+ * - `ConfigurationLimitReached` - No branch accepted before the limit on
+ * the number of configurations to explore was reached. This usually means
+ * the PDA can keep pushing onto its stack forever without reading input.
+ */
+export enum PDARunStatus {
+  Accepted,
+  Rejected,
+  InvalidPDA,
+  InvalidInputTokens,
+  ConfigurationLimitReached,
+}
+
+/** A snapshot of a PDA part way through a computation. */
+export interface PDAConfiguration {
+  /** The ID of the current state. */
+  state: string;
+
+  /** How many input tokens have been consumed so far. */
+  position: number;
+
+  /** The IDs of the symbols on the stack, from the top down. */
+  stack: Array<string>;
+}
+
+/** The result of running an input string on a PDA. */
+export interface PDARunResult {
+  /** How the run concluded. */
+  status: PDARunStatus;
+
+  /**
+   * If the string was accepted, the configurations along a shortest
+   * accepting branch, starting with the initial configuration. Empty
+   * otherwise.
+   */
+  path: Array<PDAConfiguration>;
+}
+
+/**
+ * The most configurations `runPDA` explores by default before giving up.
+ */
+export const DefaultMaxPDAConfigurations = 10000;
+
+/**
+ * Runs an input string on the given pushdown automaton. Every branch of the
+ * computation is explored breadth-first, starting from the start state with
+ * an empty stack. Configurations that have already been seen are skipped, so
+ * loops that don't change the stack end on their own.
+ * @param {SerializableAutomaton} automaton The PDA to run. Its transitions'
+ * `pdaRules` are used, and its `pdaAcceptance` decides how strings are
+ * accepted (by final state if it isn't set).
+ * @param {Array<string>} input The symbols of the input string, in order.
+ * @param {number} [maxConfigurations] The most configurations to explore
+ * before giving up.
+ * @returns {PDARunResult} The outcome of the run, along with an accepting
+ * branch if there is one.
+ */
+export function runPDA(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+  maxConfigurations: number = DefaultMaxPDAConfigurations,
+): PDARunResult {
+  if (!automaton.states.some((state) => state.id === automaton.startState)) {
+    return { status: PDARunStatus.InvalidPDA, path: [] };
+  }
+
+  const tokenIDs = input.map(
+    (symbol) => automaton.alphabet.find((tok) => tok.symbol === symbol)?.id,
+  );
+  if (tokenIDs.some((id) => id === undefined)) {
+    return { status: PDARunStatus.InvalidInputTokens, path: [] };
+  }
+
+  const acceptance = automaton.pdaAcceptance ?? PDAAcceptanceMode.FinalState;
+  const isAccepting = (config: PDAConfiguration) =>
+    config.position === tokenIDs.length &&
+    (acceptance === PDAAcceptanceMode.EmptyStack
+      ? config.stack.length === 0
+      : automaton.acceptStates.includes(config.state));
+
+  const keyFor = (config: PDAConfiguration) =>
+    `${config.state}|${config.position}|${config.stack.join(",")}`;
+
+  // Each explored configuration, along with the index of the configuration
+  // it came from, so the accepting branch can be traced back
+  const explored: Array<{ config: PDAConfiguration; parent: number }> = [
+    {
+      config: { state: automaton.startState, position: 0, stack: [] },
+      parent: -1,
+    },
+  ];
+  const seen = new Set([keyFor(explored[0].config)]);
+
+  for (let current = 0; current < explored.length; current++) {
+    const config = explored[current].config;
+    if (isAccepting(config)) {
+      const path: Array<PDAConfiguration> = [];
+      for (let i = current; i >= 0; i = explored[i].parent) {
+        path.unshift(explored[i].config);
+      }
+      return { status: PDARunStatus.Accepted, path: path };
+    }
+
+    if (explored.length >= maxConfigurations) {
+      return { status: PDARunStatus.ConfigurationLimitReached, path: [] };
+    }
+
+    automaton.transitions
+      .filter((trans) => trans.source === config.state)
+      .forEach((trans) => {
+        (trans.pdaRules ?? []).forEach((rule) => {
+          if (
+            rule.input !== null &&
+            (config.position >= tokenIDs.length ||
+              tokenIDs[config.position] !== rule.input)
+          ) {
+            return;
+          }
+          if (rule.pop !== null && config.stack[0] !== rule.pop) {
+            return;
+          }
+
+          const next: PDAConfiguration = {
+            state: trans.dest,
+            position: config.position + (rule.input !== null ? 1 : 0),
+            stack: [
+              ...rule.push,
+              ...config.stack.slice(rule.pop !== null ? 1 : 0),
+            ],
+          };
+          const key = keyFor(next);
+          if (!seen.has(key)) {
+            seen.add(key);
+            explored.push({ config: next, parent: current });
+          }
+        });
+      });
+  }
+
+  return { status: PDARunStatus.Rejected, path: [] };
+}
@@ -0,0 +1,293 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  SerializableAutomaton,
+  SerializableState,
+  SerializableToken,
+  SerializableTransition,
+} from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+import { epsilonClosure, move } from "./NFAUtilities";
+
+/**
+ * An automaton viewed as a DFA whose states are sets of the original states
+ * (as in the subset construction) and whose transitions are on token
+ * symbols rather than token IDs. This lets two automata with different
+ * token IDs, or with nondeterminism, be compared directly.
+ */
+interface DeterministicView {
+  /** The set of states active before any input is consumed. */
+  start: Set<string>;
+
+  /** Finds the set of states active after consuming the given symbol. */
+  step: (stateIDs: Set<string>, symbol: string) => Set<string>;
+
+  /** Whether any of the given states is an accept state. */
+  accepts: (stateIDs: Set<string>) => boolean;
+
+  /** A key that is the same for any two equal sets of states. */
+  keyFor: (stateIDs: Set<string>) => string;
+
+  /**
+   * A readable name for a set of states: the state's label for a single
+   * state, `∅` for no states, or the labels in braces (e.g. `{q0,q2}`).
+   */
+  labelFor: (stateIDs: Set<string>) => string;
+}
+
+/**
+ * Builds a deterministic view of an automaton (DFA or NFA).
+ * @param {SerializableAutomaton} automaton The automaton to view.
+ * @returns {DeterministicView} The deterministic view. If the automaton has
+ * no start state, it starts (and stays) in the empty set of states.
+ */
+function deterministicView(
+  automaton: SerializableAutomaton,
+): DeterministicView {
+  const hasStart = automaton.states.some(
+    (state) => state.id === automaton.startState,
+  );
+  const stateOrder = automaton.states.map((state) => state.id);
+
+  return {
+    start: epsilonClosure(automaton, hasStart ? [automaton.startState] : []),
+    step: (stateIDs, symbol) => {
+      const token = automaton.alphabet.find((tok) => tok.symbol === symbol);
+      if (!token) {
+        return new Set();
+      }
+      return epsilonClosure(automaton, move(automaton, stateIDs, token.id));
+    },
+    accepts: (stateIDs) =>
+      automaton.acceptStates.some((id) => stateIDs.has(id)),
+    keyFor: (stateIDs) => stateOrder.filter((id) => stateIDs.has(id)).join(),
+    labelFor: (stateIDs) => {
+      const labels = automaton.states
+        .filter((state) => stateIDs.has(state.id))
+        .map((state) => state.label);
+      if (labels.length === 0) {
+        return "∅";
+      }
+      return labels.length === 1 ? labels[0] : `{${labels.join(",")}}`;
+    },
+  };
+}
+
+/**
+ * Lists every token symbol used by either automaton, with the first
+ * automaton's symbols first, each in alphabet order.
+ */
+function combinedSymbols(
+  first: SerializableAutomaton,
+  second: SerializableAutomaton,
+): Array<string> {
+  const symbols: Array<string> = [];
+  [...first.alphabet, ...second.alphabet].forEach((tok) => {
+    if (!symbols.includes(tok.symbol)) {
+      symbols.push(tok.symbol);
+    }
+  });
+  return symbols;
+}
+
+/** A string accepted by exactly one of two automata. */
+export interface Counterexample {
+  /** The symbols of the string, in order. */
+  input: Array<string>;
+
+  /**
+   * `true` if the first automaton accepts the string (and the second
+   * rejects it), `false` if the second automaton accepts it.
+   */
+  acceptedByFirst: boolean;
+}
+
+/**
+ * Checks whether two automata (DFAs or NFAs) accept the same language, using
+ * the product construction. Pairs of states are explored breadth-first from
+ * the pair of start states, so the first pair found where exactly one
+ * automaton accepts gives a shortest string that tells them apart.
+ *
+ * Tokens are matched by symbol, so the two automata don't need to share token
+ * IDs. A symbol that is only in one automaton's alphabet is rejected by the
+ * other one.
+ * @param {SerializableAutomaton} first The first automaton.
+ * @param {SerializableAutomaton} second The second automaton.
+ * @returns {Counterexample | null} A shortest string accepted by exactly one
+ * of the automata, or `null` if they accept the same language.
+ */
+export function findCounterexample(
+  first: SerializableAutomaton,
+  second: SerializableAutomaton,
+): Counterexample | null {
+  const firstView = deterministicView(first);
+  const secondView = deterministicView(second);
+  const symbols = combinedSymbols(first, second);
+
+  const keyForPair = (firstStates: Set<string>, secondStates: Set<string>) =>
+    `${firstView.keyFor(firstStates)}|${secondView.keyFor(secondStates)}`;
+
+  const visited = new Set([keyForPair(firstView.start, secondView.start)]);
+  const toVisit = [
+    { first: firstView.start, second: secondView.start, input: [] as string[] },
+  ];
+
+  while (toVisit.length > 0) {
+    const current = toVisit.shift();
+    const firstAccepts = firstView.accepts(current.first);
+    if (firstAccepts !== secondView.accepts(current.second)) {
+      return { input: current.input, acceptedByFirst: firstAccepts };
+    }
+
+    symbols.forEach((symbol) => {
+      const next = {
+        first: firstView.step(current.first, symbol),
+        second: secondView.step(current.second, symbol),
+        input: [...current.input, symbol],
+      };
+      const key = keyForPair(next.first, next.second);
+      if (!visited.has(key)) {
+        visited.add(key);
+        toVisit.push(next);
+      }
+    });
+  }
+
+  return null;
+}
+
+/**
+ * The ways two automata can be combined with the product construction.
+ *
+ * - `Union` - Accepts strings accepted by either automaton.
+ * - `Intersection` - Accepts strings accepted by both automata.
+ * - `Difference` - Accepts strings accepted by the first automaton but not
+ * the second.
+ */
+export enum ProductOperation {
+  Union = "union",
+  Intersection = "intersection",
+  Difference = "difference",
+}
+
+/**
+ * Combines two automata (DFAs or NFAs) into a DFA using the product
+ * construction. Each state of the result stands for a pair of states, one
+ * from each automaton, and is labeled with their labels (e.g. `(q0,p1)`).
+ * Only pairs reachable from the pair of start states are created, and the
+ * result is always complete.
+ *
+ * Tokens are matched by symbol, as in `findCounterexample`. The result's
+ * alphabet contains every symbol from both automata, keeping the first
+ * automaton's token IDs.
+ *
+ * The states of the result are all placed at (0, 0); use `layoutAutomaton`
+ * to position them.
+ * @param {SerializableAutomaton} first The first automaton.
+ * @param {SerializableAutomaton} second The second automaton.
+ * @param {ProductOperation} operation How to decide which pairs of states
+ * are accept states.
+ * @returns {SerializableAutomaton} The combined DFA.
+ */
+export function productAutomaton(
+  first: SerializableAutomaton,
+  second: SerializableAutomaton,
+  operation: ProductOperation,
+): SerializableAutomaton {
+  const firstView = deterministicView(first);
+  const secondView = deterministicView(second);
+
+  const alphabet: Array<SerializableToken> = combinedSymbols(first, second).map(
+    (symbol) => ({
+      id: first.alphabet.find((tok) => tok.symbol === symbol)?.id ?? uuidv4(),
+      symbol: symbol,
+    }),
+  );
+
+  const isAccepting = (firstAccepts: boolean, secondAccepts: boolean) => {
+    switch (operation) {
+      case ProductOperation.Union:
+        return firstAccepts || secondAccepts;
+      case ProductOperation.Intersection:
+        return firstAccepts && secondAccepts;
+      case ProductOperation.Difference:
+        return firstAccepts && !secondAccepts;
+    }
+  };
+
+  const states: Array<SerializableState> = [];
+  const transitions: Array<SerializableTransition> = [];
+  const acceptStates: Array<string> = [];
+
+  // Maps the key for a pair of sets of states to the ID of the new state
+  const newStateIDs = new Map<string, string>();
+  const toVisit: Array<{ first: Set<string>; second: Set<string> }> = [];
+
+  const addStateForPair = (
+    firstStates: Set<string>,
+    secondStates: Set<string>,
+  ): string => {
+    const key = `${firstView.keyFor(firstStates)}|${secondView.keyFor(secondStates)}`;
+    if (newStateIDs.has(key)) {
+      return newStateIDs.get(key);
+    }
+
+    const id = uuidv4();
+    newStateIDs.set(key, id);
+    states.push({
+      id: id,
+      x: 0,
+      y: 0,
+      label: `(${firstView.labelFor(firstStates)},${secondView.labelFor(secondStates)})`,
+    });
+    if (
+      isAccepting(
+        firstView.accepts(firstStates),
+        secondView.accepts(secondStates),
+      )
+    ) {
+      acceptStates.push(id);
+    }
+    toVisit.push({ first: firstStates, second: secondStates });
+    return id;
+  };
+
+  const startState = addStateForPair(firstView.start, secondView.start);
+
+  while (toVisit.length > 0) {
+    const current = toVisit.shift();
+    const sourceID = addStateForPair(current.first, current.second);
+
+    // Group tokens by destination, so that there is only one transition
+    // between each pair of states
+    const tokensByDest = new Map<string, Array<string>>();
+    alphabet.forEach((tok) => {
+      const destID = addStateForPair(
+        firstView.step(current.first, tok.symbol),
+        secondView.step(current.second, tok.symbol),
+      );
+      if (!tokensByDest.has(destID)) {
+        tokensByDest.set(destID, []);
+      }
+      tokensByDest.get(destID).push(tok.id);
+    });
+
+    tokensByDest.forEach((tokens, destID) => {
+      transitions.push({
+        id: uuidv4(),
+        source: sourceID,
+        dest: destID,
+        isEpsilonTransition: false,
+        tokens: tokens,
+      });
+    });
+  }
+
+  return {
+    states: states,
+    alphabet: alphabet,
+    transitions: transitions,
+    startState: startState,
+    acceptStates: acceptStates,
+    type: AutomatonType.DFA,
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { automatonToRegex, parseRegex, regexToString } from "./RegexUtilities";
+
+/** An NFA over {a, b, ab} that accepts only "a" followed by "b". */
+const aThenB: SerializableAutomaton = {
+  states: [
+    { id: "s0", x: 0, y: 0, label: "q0" },
+    { id: "s1", x: 100, y: 0, label: "q1" },
+    { id: "s2", x: 200, y: 0, label: "q2" },
+  ],
+  alphabet: [
+    { id: "ta", symbol: "a" },
+    { id: "tb", symbol: "b" },
+    { id: "tab", symbol: "ab" },
+  ],
+  transitions: [
+    {
+      id: "r0",
+      source: "s0",
+      dest: "s1",
+      isEpsilonTransition: false,
+      tokens: ["ta"],
+    },
+    {
+      id: "r1",
+      source: "s1",
+      dest: "s2",
+      isEpsilonTransition: false,
+      tokens: ["tb"],
+    },
+  ],
+  startState: "s0",
+  acceptStates: ["s2"],
+};
+
+describe("regexToString", () => {
+  it("writes expressions with as few parentheses as possible", () => {
+    const regex = parseRegex("(a|b)*(ab)", ["a", "b"]);
+    expect(regexToString(regex)).toBe("(a|b)*ab");
+  });
+
+  it("writes the separator between expressions joined together", () => {
+    const regex = parseRegex("a b*", ["a", "b", "ab"]);
+    expect(regexToString(regex, " ")).toBe("a b*");
+  });
+});
+
+describe("automatonToRegex", () => {
+  it("spaces out tokens when a token is more than one character long", () => {
+    const regex = automatonToRegex(aThenB).regex;
+    expect(regex).toBe("a b");
+    expect(parseRegex(regex, ["a", "b", "ab"])).toEqual(
+      parseRegex("(a)(b)", ["a", "b", "ab"]),
+    );
+  });
+
+  it("doesn't space out single-character tokens", () => {
+    const automaton: SerializableAutomaton = {
+      ...aThenB,
+      alphabet: aThenB.alphabet.slice(0, 2),
+    };
+    expect(automatonToRegex(automaton).regex).toBe("ab");
+  });
+});
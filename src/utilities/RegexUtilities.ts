@@ -0,0 +1,526 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  SerializableAutomaton,
+  SerializableState,
+  SerializableToken,
+  SerializableTransition,
+} from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+
+/**
+ * A parsed regular expression.
+ *
+ * - `empty` - Matches only the empty string (ε).
+ * - `symbol` - Matches a single token from the alphabet.
+ * - `concat` - Matches `left` followed by `right`.
+ * - `union` - Matches either `left` or `right`.
+ * - `star` - Matches zero or more repetitions of `inner`.
+ */
+export type RegexNode =
+  | { kind: "empty" }
+  | { kind: "symbol"; symbol: string }
+  | { kind: "concat"; left: RegexNode; right: RegexNode }
+  | { kind: "union"; left: RegexNode; right: RegexNode }
+  | { kind: "star"; inner: RegexNode };
+
+/** Characters with a special meaning in regular expressions. */
+const OperatorCharacters = ["(", ")", "|", "*", "+", "?", "ε"];
+
+/**
+ * Parses a regular expression over the given alphabet.
+ *
+ * The supported syntax is:
+ * - A token symbol matches that token. When symbols are more than one
+ * character long, the longest symbol that matches is used.
+ * - `ε` or `()` matches the empty string.
+ * - `AB` matches `A` followed by `B`.
+ * - `A|B` matches either `A` or `B`.
+ * - `A*`, `A+` and `A?` match zero or more, one or more, and zero or one
+ * repetitions of `A`.
+ * - Parentheses group expressions, and `\` can be placed before an operator
+ * character to use it as a token symbol instead.
+ *
+ * Whitespace is ignored.
+ * @param {string} regex The regular expression to parse.
+ * @param {Array<string>} alphabet The symbols of the tokens that may appear
+ * in the expression.
+ * @returns {RegexNode} The parsed expression.
+ * @throws {Error} If the expression is malformed or uses symbols that are
+ * not in the alphabet. The error message is suitable to show to the user.
+ */
+export function parseRegex(regex: string, alphabet: Array<string>): RegexNode {
+  // Longest symbols first, so that the longest match is always found first
+  const symbols = alphabet
+    .filter((symbol) => symbol.length > 0)
+    .sort((a, b) => b.length - a.length);
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < regex.length && /\s/.test(regex[pos])) {
+      pos++;
+    }
+  };
+
+  const peek = (): string | null => {
+    skipWhitespace();
+    return pos < regex.length ? regex[pos] : null;
+  };
+
+  const readSymbol = (): string => {
+    const symbol = symbols.find((s) => regex.startsWith(s, pos));
+    if (symbol === undefined) {
+      throw new Error(
+        `"${regex[pos]}" at position ${pos + 1} is not in the alphabet.`,
+      );
+    }
+    pos += symbol.length;
+    return symbol;
+  };
+
+  const parseUnion = (): RegexNode => {
+    let node = parseConcat();
+    while (peek() === "|") {
+      pos++;
+      node = { kind: "union", left: node, right: parseConcat() };
+    }
+    return node;
+  };
+
+  const parseConcat = (): RegexNode => {
+    let node: RegexNode | null = null;
+    let next = peek();
+    while (next !== null && next !== "|" && next !== ")") {
+      const item = parseRepeat();
+      node = node === null ? item : { kind: "concat", left: node, right: item };
+      next = peek();
+    }
+    return node ?? { kind: "empty" };
+  };
+
+  const parseRepeat = (): RegexNode => {
+    let node = parseAtom();
+    let next = peek();
+    while (next === "*" || next === "+" || next === "?") {
+      pos++;
+      if (next === "*") {
+        node = { kind: "star", inner: node };
+      } else if (next === "+") {
+        node = {
+          kind: "concat",
+          left: node,
+          right: { kind: "star", inner: node },
+        };
+      } else {
+        node = { kind: "union", left: node, right: { kind: "empty" } };
+      }
+      next = peek();
+    }
+    return node;
+  };
+
+  const parseAtom = (): RegexNode => {
+    const next = peek();
+    if (next === "(") {
+      pos++;
+      const inner = parseUnion();
+      if (peek() !== ")") {
+        throw new Error(`Missing ")" at position ${pos + 1}.`);
+      }
+      pos++;
+      return inner;
+    } else if (next === "ε") {
+      pos++;
+      return { kind: "empty" };
+    } else if (next === "\\") {
+      pos++;
+      if (pos >= regex.length) {
+        throw new Error(`Nothing to escape after "\\" at the end.`);
+      }
+      return { kind: "symbol", symbol: readSymbol() };
+    } else if (OperatorCharacters.includes(next)) {
+      throw new Error(`Unexpected "${next}" at position ${pos + 1}.`);
+    }
+    return { kind: "symbol", symbol: readSymbol() };
+  };
+
+  const result = parseUnion();
+  if (peek() !== null) {
+    throw new Error(`Unexpected "${regex[pos]}" at position ${pos + 1}.`);
+  }
+  return result;
+}
+
+/**
+ * Builds an NFA that accepts the language of a regular expression, using
+ * Thompson's construction. States are labeled q0, q1, q2, etc in the order
+ * they are reached from the start state.
+ *
+ * The states of the result are all placed at (0, 0); use `layoutAutomaton`
+ * to position them.
+ * @param {RegexNode} regex The parsed regular expression.
+ * @param {Array<SerializableToken>} alphabet The alphabet the expression is
+ * written over. The resulting NFA uses these tokens (including their IDs).
+ * @returns {SerializableAutomaton} The NFA.
+ */
+export function thompsonConstruction(
+  regex: RegexNode,
+  alphabet: Array<SerializableToken>,
+): SerializableAutomaton {
+  const stateIDs: Array<string> = [];
+  const transitions: Array<SerializableTransition> = [];
+
+  const newState = (): string => {
+    const id = uuidv4();
+    stateIDs.push(id);
+    return id;
+  };
+
+  // Only one transition is allowed between each pair of states, so tokens
+  // (and ε) are merged into any existing transition
+  const connect = (source: string, dest: string, tokenID: string | null) => {
+    let trans = transitions.find((t) => t.source === source && t.dest === dest);
+    if (!trans) {
+      trans = {
+        id: uuidv4(),
+        source: source,
+        dest: dest,
+        isEpsilonTransition: false,
+        tokens: [],
+      };
+      transitions.push(trans);
+    }
+
+    if (tokenID === null) {
+      trans.isEpsilonTransition = true;
+    } else if (!trans.tokens.includes(tokenID)) {
+      trans.tokens.push(tokenID);
+    }
+  };
+
+  // Builds the fragment for a node, returning its start and accept states
+  const build = (node: RegexNode): [string, string] => {
+    const start = newState();
+    switch (node.kind) {
+      case "empty": {
+        const accept = newState();
+        connect(start, accept, null);
+        return [start, accept];
+      }
+      case "symbol": {
+        const accept = newState();
+        const token = alphabet.find((tok) => tok.symbol === node.symbol);
+        connect(start, accept, token.id);
+        return [start, accept];
+      }
+      case "concat": {
+        const [leftStart, leftAccept] = build(node.left);
+        const [rightStart, rightAccept] = build(node.right);
+        connect(start, leftStart, null);
+        connect(leftAccept, rightStart, null);
+        return [start, rightAccept];
+      }
+      case "union": {
+        const [leftStart, leftAccept] = build(node.left);
+        const [rightStart, rightAccept] = build(node.right);
+        const accept = newState();
+        connect(start, leftStart, null);
+        connect(start, rightStart, null);
+        connect(leftAccept, accept, null);
+        connect(rightAccept, accept, null);
+        return [start, accept];
+      }
+      case "star": {
+        const [innerStart, innerAccept] = build(node.inner);
+        const accept = newState();
+        connect(start, innerStart, null);
+        connect(start, accept, null);
+        connect(innerAccept, innerStart, null);
+        connect(innerAccept, accept, null);
+        return [start, accept];
+      }
+    }
+  };
+
+  const [startState, acceptState] = build(regex);
+
+  // Number the states in breadth-first order from the start state, so the
+  // labels read from left to right once the NFA is laid out
+  const order = [startState];
+  for (let i = 0; i < order.length; i++) {
+    transitions
+      .filter((trans) => trans.source === order[i])
+      .forEach((trans) => {
+        if (!order.includes(trans.dest)) {
+          order.push(trans.dest);
+        }
+      });
+  }
+  stateIDs.filter((id) => !order.includes(id)).forEach((id) => order.push(id));
+
+  const states: Array<SerializableState> = order.map((id, i) => ({
+    id: id,
+    x: 0,
+    y: 0,
+    label: `q${i}`,
+  }));
+
+  return {
+    states: states,
+    alphabet: alphabet.map((tok) => ({ ...tok })),
+    transitions: transitions,
+    startState: startState,
+    acceptStates: [acceptState],
+    type: AutomatonType.NFA,
+  };
+}
+
+/**
+ * How tightly each kind of expression binds when it is written out. Higher
+ * numbers bind more tightly, so they need fewer parentheses.
+ */
+const Precedence = {
+  union: 0,
+  concat: 1,
+  star: 2,
+  symbol: 3,
+  empty: 3,
+};
+
+/**
+ * Writes out a parsed regular expression using the same syntax that
+ * `parseRegex` accepts, with as few parentheses as possible.
+ * @param {RegexNode | null} node The expression to write out. `null` stands
+ * for the expression that matches nothing, which is written as `∅`.
+ * @param {string} separator What to write between expressions that are
+ * joined one after the other. When token symbols can be more than one
+ * character long, a space keeps `a` followed by `b` from reading as the
+ * token `ab`, since `parseRegex` ignores whitespace.
+ * @returns {string} The written-out expression.
+ */
+export function regexToString(
+  node: RegexNode | null,
+  separator: string = "",
+): string {
+  if (node === null) {
+    return "∅";
+  }
+
+  const wrap = (child: RegexNode, minPrecedence: number) => {
+    const text = regexToString(child, separator);
+    return Precedence[child.kind] < minPrecedence ? `(${text})` : text;
+  };
+
+  switch (node.kind) {
+    case "empty":
+      return "ε";
+    case "symbol":
+      return OperatorCharacters.includes(node.symbol) || node.symbol === "\\"
+        ? `\\${node.symbol}`
+        : node.symbol;
+    case "concat":
+      return (
+        wrap(node.left, Precedence.concat) +
+        separator +
+        wrap(node.right, Precedence.concat)
+      );
+    case "union":
+      return `${wrap(node.left, Precedence.union)}|${wrap(node.right, Precedence.union)}`;
+    case "star":
+      return `${wrap(node.inner, Precedence.symbol)}*`;
+  }
+}
+
+/**
+ * Combines two expressions with "or", skipping redundant parts. `null`
+ * stands for the expression that matches nothing.
+ */
+function simplifiedUnion(
+  left: RegexNode | null,
+  right: RegexNode | null,
+): RegexNode | null {
+  if (left === null) return right;
+  if (right === null) return left;
+  if (regexToString(left) === regexToString(right)) return left;
+
+  // ε is already matched by any starred expression
+  if (left.kind === "empty" && right.kind === "star") return right;
+  if (right.kind === "empty" && left.kind === "star") return left;
+
+  return { kind: "union", left: left, right: right };
+}
+
+/**
+ * Joins two expressions one after the other, skipping redundant parts.
+ * `null` stands for the expression that matches nothing.
+ */
+function simplifiedConcat(
+  left: RegexNode | null,
+  right: RegexNode | null,
+): RegexNode | null {
+  if (left === null || right === null) return null;
+  if (left.kind === "empty") return right;
+  if (right.kind === "empty") return left;
+  return { kind: "concat", left: left, right: right };
+}
+
+/**
+ * Repeats an expression zero or more times, skipping redundant parts.
+ * `null` stands for the expression that matches nothing.
+ */
+function simplifiedStar(inner: RegexNode | null): RegexNode {
+  if (inner === null || inner.kind === "empty") return { kind: "empty" };
+  if (inner.kind === "star") return inner;
+  return { kind: "star", inner: inner };
+}
+
+/** A single transition in a generalized NFA, labeled with an expression. */
+export interface GNFAEdge {
+  /** The label of the state the transition comes from. */
+  from: string;
+
+  /** The label of the state the transition leads to. */
+  to: string;
+
+  /** The expression the transition is labeled with. */
+  regex: string;
+}
+
+/** The generalized NFA at one point during state elimination. */
+export interface StateEliminationStep {
+  /** A human-readable description of what happened in this step. */
+  description: string;
+
+  /** The transitions remaining after this step. */
+  edges: Array<GNFAEdge>;
+}
+
+/** The result of converting an automaton to a regular expression. */
+export interface StateEliminationResult {
+  /** An expression that accepts the same language as the automaton. */
+  regex: string;
+
+  /** The generalized NFA before and after each state was eliminated. */
+  steps: Array<StateEliminationStep>;
+}
+
+/**
+ * Converts an automaton (DFA or NFA) into an equivalent regular expression
+ * using state elimination.
+ *
+ * A new start state and a single new accept state are added, connected with
+ * ε transitions, so the automaton becomes a generalized NFA whose transitions
+ * are labeled with expressions. The original states are then removed one at
+ * a time, rerouting the paths through each removed state, until only the new
+ * start and accept states are left.
+ * @param {SerializableAutomaton} automaton The automaton to convert.
+ * @returns {StateEliminationResult} The expression, along with the
+ * generalized NFA at each step.
+ */
+export function automatonToRegex(
+  automaton: SerializableAutomaton,
+): StateEliminationResult {
+  const symbolOf = new Map(
+    automaton.alphabet.map((tok) => [tok.id, tok.symbol]),
+  );
+  const labelOf = new Map(
+    automaton.states.map((state) => [state.id, state.label]),
+  );
+
+  // Symbols written next to each other could read as one longer symbol, so
+  // they are spaced out when any symbol is more than one character long
+  const separator = automaton.alphabet.some((tok) => tok.symbol.length > 1)
+    ? " "
+    : "";
+
+  // The new start and accept states need IDs that can't clash with any
+  // existing state
+  const start = uuidv4();
+  const accept = uuidv4();
+  labelOf.set(start, "start");
+  labelOf.set(accept, "accept");
+
+  // edges.get(p).get(q) is the expression for the transition from p to q
+  const edges = new Map<string, Map<string, RegexNode>>();
+  const addEdge = (source: string, dest: string, regex: RegexNode) => {
+    if (!edges.has(source)) {
+      edges.set(source, new Map());
+    }
+    const existing = edges.get(source).get(dest) ?? null;
+    edges.get(source).set(dest, simplifiedUnion(existing, regex));
+  };
+  const edgeBetween = (source: string, dest: string): RegexNode | null =>
+    edges.get(source)?.get(dest) ?? null;
+
+  if (labelOf.has(automaton.startState)) {
+    addEdge(start, automaton.startState, { kind: "empty" });
+  }
+  automaton.acceptStates.forEach((id) =>
+    addEdge(id, accept, { kind: "empty" }),
+  );
+  automaton.transitions.forEach((trans) => {
+    if (trans.isEpsilonTransition) {
+      addEdge(trans.source, trans.dest, { kind: "empty" });
+    }
+    trans.tokens.forEach((tokenID) =>
+      addEdge(trans.source, trans.dest, {
+        kind: "symbol",
+        symbol: symbolOf.get(tokenID),
+      }),
+    );
+  });
+
+  let remaining = [start, ...automaton.states.map((state) => state.id), accept];
+  const describeEdges = (): Array<GNFAEdge> => {
+    const result: Array<GNFAEdge> = [];
+    remaining.forEach((source) =>
+      remaining.forEach((dest) => {
+        const regex = edgeBetween(source, dest);
+        if (regex !== null) {
+          result.push({
+            from: labelOf.get(source),
+            to: labelOf.get(dest),
+            regex: regexToString(regex, separator),
+          });
+        }
+      }),
+    );
+    return result;
+  };
+
+  const steps: Array<StateEliminationStep> = [
+    {
+      description: "Add new start and accept states",
+      edges: describeEdges(),
+    },
+  ];
+
+  automaton.states.forEach((state) => {
+    const removed = state.id;
+    remaining = remaining.filter((id) => id !== removed);
+    const loop = simplifiedStar(edgeBetween(removed, removed));
+
+    // Reroute every path that passed through the removed state
+    remaining.forEach((source) => {
+      const into = edgeBetween(source, removed);
+      if (into === null) return;
+      remaining.forEach((dest) => {
+        const outOf = edgeBetween(removed, dest);
+        if (outOf === null) return;
+        const path = simplifiedConcat(simplifiedConcat(into, loop), outOf);
+        addEdge(source, dest, path);
+      });
+    });
+
+    edges.delete(removed);
+    edges.forEach((outgoing) => outgoing.delete(removed));
+    steps.push({
+      description: `Eliminate ${state.label}`,
+      edges: describeEdges(),
+    });
+  });
+
+  return {
+    regex: regexToString(edgeBetween(start, accept), separator),
+    steps: steps,
+  };
+}
@@ -0,0 +1,163 @@
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { TMRunResult } from "./TMUtilities";
+import { epsilonClosure } from "./NFAUtilities";
+
+/** One step of a run, as shown by the simulation player. */
+export interface SimulationStep {
+  /** The IDs of the states the machine is in at this step. */
+  states: Array<string>;
+
+  /**
+   * The IDs of the transitions followed to get to this step from the one
+   * before it. Empty for the first step.
+   */
+  transitions: Array<string>;
+
+  /**
+   * How many input tokens have been read by this step, or `null` if the
+   * machine doesn't read its input from left to right (as with a Turing
+   * machine, which moves its head around the tape instead).
+   */
+  consumed: number | null;
+
+  /**
+   * The IDs of the states whose branches of the computation ended at this
+   * step: the machine was in them at the step before, but they have no
+   * transition for the token just read. Only used for nondeterministic runs.
+   */
+  deadStates?: Array<string>;
+}
+
+/** A run of an input string, recorded so that it can be played back. */
+export interface Simulation {
+  /** The symbols of the input tokens, in order. */
+  input: Array<string>;
+
+  /** Every step of the run, starting with the machine in its start state. */
+  steps: Array<SimulationStep>;
+}
+
+/**
+ * Records the steps of a run on a machine with at most one transition to
+ * follow for each state and token, such as a DFA or a Mealy or Moore machine.
+ * The run stops early if the machine has no transition for the next token.
+ * @param {SerializableAutomaton} automaton The machine to run.
+ * @param {Array<string>} input The symbols of the input tokens, in order.
+ * @returns {Array<SimulationStep>} The steps of the run, or an empty array if
+ * the machine has no start state.
+ */
+export function traceDeterministicRun(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): Array<SimulationStep> {
+  if (!automaton.states.some((state) => state.id === automaton.startState)) {
+    return [];
+  }
+
+  let current = automaton.startState;
+  const steps: Array<SimulationStep> = [
+    { states: [current], transitions: [], consumed: 0 },
+  ];
+  for (let i = 0; i < input.length; i++) {
+    const tokenID = automaton.alphabet.find(
+      (tok) => tok.symbol === input[i],
+    )?.id;
+    const trans = automaton.transitions.find(
+      (t) => t.source === current && t.tokens.includes(tokenID),
+    );
+    if (!trans) {
+      break;
+    }
+
+    current = trans.dest;
+    steps.push({ states: [current], transitions: [trans.id], consumed: i + 1 });
+  }
+  return steps;
+}
+
+/**
+ * Records the steps of a run on an NFA, following every branch of the
+ * computation at once. Each step holds the whole set of active states, with
+ * epsilon closures already applied, so the steps match a subset trace worked
+ * by hand. The transitions of each step are every transition on the token
+ * just read out of an active state, along with every ε transition followed
+ * to fill in the closure.
+ * @param {SerializableAutomaton} automaton The NFA to run.
+ * @param {Array<string>} input The symbols of the input tokens, in order.
+ * @returns {Array<SimulationStep>} The steps of the run, or an empty array if
+ * the NFA has no start state or the input has a symbol that isn't in the
+ * alphabet.
+ */
+export function traceNFARun(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): Array<SimulationStep> {
+  if (!automaton.states.some((state) => state.id === automaton.startState)) {
+    return [];
+  }
+  const tokenIDs = input.map(
+    (symbol) => automaton.alphabet.find((tok) => tok.symbol === symbol)?.id,
+  );
+  if (tokenIDs.some((id) => id === undefined)) {
+    return [];
+  }
+
+  // State sets are listed in the order the automaton lists its states, so
+  // that the same set always reads the same way
+  const inStateOrder = (states: Set<string>) =>
+    automaton.states.map((state) => state.id).filter((id) => states.has(id));
+  const epsilonTransitionsWithin = (states: Set<string>) =>
+    automaton.transitions
+      .filter((trans) => trans.isEpsilonTransition && states.has(trans.source))
+      .map((trans) => trans.id);
+
+  let active = epsilonClosure(automaton, [automaton.startState]);
+  const steps: Array<SimulationStep> = [
+    {
+      states: inStateOrder(active),
+      transitions: epsilonTransitionsWithin(active),
+      consumed: 0,
+      deadStates: [],
+    },
+  ];
+  tokenIDs.forEach((tokenID, i) => {
+    const followed = automaton.transitions.filter(
+      (trans) => active.has(trans.source) && trans.tokens.includes(tokenID),
+    );
+    const previous = active;
+    active = epsilonClosure(
+      automaton,
+      followed.map((trans) => trans.dest),
+    );
+    // A state that is entered again by another branch is still live
+    const deadStates = inStateOrder(previous).filter(
+      (id) => !followed.some((trans) => trans.source === id) && !active.has(id),
+    );
+    steps.push({
+      states: inStateOrder(active),
+      transitions: followed
+        .map((trans) => trans.id)
+        .concat(epsilonTransitionsWithin(active)),
+      consumed: i + 1,
+      deadStates: deadStates,
+    });
+  });
+  return steps;
+}
+
+/**
+ * Converts the result of a Turing machine run into steps for the simulation
+ * player.
+ * @param {TMRunResult} result The result of the run, from `runTM`.
+ * @returns {Array<SimulationStep>} The steps of the run, with one step for
+ * each state the machine passed through.
+ */
+export function tmRunToSteps(result: TMRunResult): Array<SimulationStep> {
+  return result.path.map(
+    (state, i): SimulationStep => ({
+      states: [state],
+      transitions: i === 0 ? [] : [result.transitions[i - 1]],
+      consumed: null,
+    }),
+  );
+}
@@ -0,0 +1,253 @@
+import { SerializableAutomaton } from "../SerializableAutomaton";
+
+/**
+ * The ways a Turing machine's head can move after writing to the tape. The
+ * value of each entry is what gets written to saved automaton files, and is
+ * also how the move is shown on transitions.
+ *
+ * - `Left` - Move one cell to the left.
+ * - `Right` - Move one cell to the right.
+ * - `Stay` - Stay on the same cell.
+ */
+export enum TMMove {
+  Left = "L",
+  Right = "R",
+  Stay = "S",
+}
+
+/**
+ * Checks if the given value is one of the known head moves.
+ * @param value The value to check, usually read from a saved automaton file.
+ * @returns {boolean} `true` if the value is a valid `TMMove`, and `false`
+ * otherwise.
+ */
+export function isTMMove(value: unknown): value is TMMove {
+  return Object.values(TMMove).includes(value as TMMove);
+}
+
+/** The symbol used to show a blank tape cell. */
+export const BlankSymbol = "□";
+
+/**
+ * The most steps a Turing machine may take by default before a run is
+ * stopped.
+ */
+export const DefaultTMStepLimit = 1000;
+
+/**
+ * The highest step limit that can be set, so that a looping machine can't
+ * freeze the browser.
+ */
+export const MaxTMStepLimit = 100000;
+
+/**
+ * The possible outcomes of running an input string on a Turing machine.
+ *
+ * - `Accepted` - The machine halted by entering an accept state.
+ * - `Rejected` - The machine halted by entering a reject state, or because
+ * no rule applied to the symbol under the head.
+ * - `InvalidTM` - The machine could not be run, because it has no start
+ * state or a state has more than one rule for the same symbol.
+ * - `InvalidInputTokens` - The input contained a symbol that is not in the
+ * automaton's alphabet.
+ * - `StepLimitReached` - The machine was still running when the step limit
+ * was reached. This usually means the machine loops forever.
+ */
+export enum TMRunStatus {
+  Accepted,
+  Rejected,
+  InvalidTM,
+  InvalidInputTokens,
+  StepLimitReached,
+}
+
+/** A snapshot of a Turing machine part way through a run. */
+export interface TMConfiguration {
+  /** The ID of the current state. */
+  state: string;
+
+  /**
+   * The position of the head. The input starts at position 0, and the
+   * position goes negative if the head moves left of the input.
+   */
+  head: number;
+
+  /**
+   * The ID of the symbol in each non-blank cell, by position. Cells that
+   * aren't in the map are blank.
+   */
+  tape: Map<number, string>;
+}
+
+/** The result of running an input string on a Turing machine. */
+export interface TMRunResult {
+  /** How the run concluded. */
+  status: TMRunStatus;
+
+  /**
+   * The IDs of the states the machine was in, starting with the start state
+   * and adding one for each step taken. Empty if the machine couldn't run.
+   */
+  path: Array<string>;
+
+  /**
+   * The IDs of the transitions the machine followed, one for each step
+   * taken, so `path[i + 1]` was reached by following `transitions[i]`.
+   */
+  transitions: Array<string>;
+
+  /**
+   * The configuration the machine was in when the run concluded, or `null`
+   * if the machine couldn't run.
+   */
+  final: TMConfiguration | null;
+}
+
+/**
+ * Runs an input string on the given Turing machine, which has a single tape
+ * that is blank apart from the input and extends forever in both
+ * directions. The head starts on the first input symbol.
+ *
+ * The machine halts and accepts as soon as it enters an accept state, and
+ * halts and rejects as soon as it enters a reject state (or when no rule
+ * applies to the symbol under the head).
+ * @param {SerializableAutomaton} automaton The Turing machine to run. Its
+ * transitions' `tmRules` are used, and its `rejectStates` are the reject
+ * states.
+ * @param {Array<string>} input The symbols of the input string, in order.
+ * @param {number} maxSteps The most steps to take before stopping the run.
+ * @returns {TMRunResult} The outcome of the run, along with the states the
+ * machine passed through and its final configuration.
+ */
+export function runTM(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+  maxSteps: number,
+): TMRunResult {
+  if (!automaton.states.some((state) => state.id === automaton.startState)) {
+    return {
+      status: TMRunStatus.InvalidTM,
+      path: [],
+      transitions: [],
+      final: null,
+    };
+  }
+
+  // Find the rule for each state and symbol, making sure there is at most
+  // one of them
+  const rules = new Map<
+    string,
+    { transition: string; dest: string; write: string | null; move: TMMove }
+  >();
+  for (const trans of automaton.transitions) {
+    for (const rule of trans.tmRules ?? []) {
+      const key = `${trans.source}|${rule.read ?? ""}`;
+      if (rules.has(key)) {
+        return {
+          status: TMRunStatus.InvalidTM,
+          path: [],
+          transitions: [],
+          final: null,
+        };
+      }
+      rules.set(key, {
+        transition: trans.id,
+        dest: trans.dest,
+        write: rule.write,
+        move: rule.move,
+      });
+    }
+  }
+
+  const tape = new Map<number, string>();
+  for (let i = 0; i < input.length; i++) {
+    const token = automaton.alphabet.find((tok) => tok.symbol === input[i]);
+    if (!token) {
+      return {
+        status: TMRunStatus.InvalidInputTokens,
+        path: [],
+        transitions: [],
+        final: null,
+      };
+    }
+    tape.set(i, token.id);
+  }
+
+  const rejectStates = automaton.rejectStates ?? [];
+  const config: TMConfiguration = {
+    state: automaton.startState,
+    head: 0,
+    tape: tape,
+  };
+  const path = [config.state];
+  const transitions: Array<string> = [];
+
+  for (;;) {
+    if (automaton.acceptStates.includes(config.state)) {
+      return {
+        status: TMRunStatus.Accepted,
+        path: path,
+        transitions: transitions,
+        final: config,
+      };
+    }
+    if (rejectStates.includes(config.state)) {
+      return {
+        status: TMRunStatus.Rejected,
+        path: path,
+        transitions: transitions,
+        final: config,
+      };
+    }
+
+    const rule = rules.get(`${config.state}|${tape.get(config.head) ?? ""}`);
+    if (!rule) {
+      return {
+        status: TMRunStatus.Rejected,
+        path: path,
+        transitions: transitions,
+        final: config,
+      };
+    }
+    if (path.length > maxSteps) {
+      return {
+        status: TMRunStatus.StepLimitReached,
+        path: path,
+        transitions: transitions,
+        final: config,
+      };
+    }
+
+    if (rule.write === null) {
+      tape.delete(config.head);
+    } else {
+      tape.set(config.head, rule.write);
+    }
+    if (rule.move === TMMove.Left) {
+      config.head--;
+    } else if (rule.move === TMMove.Right) {
+      config.head++;
+    }
+    config.state = rule.dest;
+    path.push(config.state);
+    transitions.push(rule.transition);
+  }
+}
+
+/**
+ * Finds the configuration a Turing machine is in after a given number of
+ * steps, by running it again for that many steps.
+ * @param {SerializableAutomaton} automaton The Turing machine to run.
+ * @param {Array<string>} input The symbols of the input string, in order.
+ * @param {number} step The number of steps to take.
+ * @returns {TMConfiguration | null} The configuration after that many steps
+ * (or when the machine halted, if that was sooner), or `null` if the machine
+ * couldn't run.
+ */
+export function configurationAtStep(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+  step: number,
+): TMConfiguration | null {
+  return runTM(automaton, input, step).final;
+}
@@ -0,0 +1,146 @@
+/** The result of running a single test, as written to a test report. */
+export interface TestReportEntry {
+  /** The string that was run. */
+  string: string;
+
+  /** Whether the automaton should accept the string. */
+  expectedAccept: boolean;
+
+  /**
+   * The status the run ended with, such as `Accepted`, `Rejected` or
+   * `Invalid Input Tokens`.
+   */
+  actual: string;
+
+  /** Whether the string was accepted exactly when it should be. */
+  passed: boolean;
+
+  /**
+   * The labels of the states the machine ended in. An NFA can end in more
+   * than one state, while a machine that couldn't run ends in none.
+   */
+  finalStates: Array<string>;
+}
+
+/**
+ * Describes the expected result of a test the same way as the status of a
+ * run.
+ * @param {boolean} expectedAccept Whether the string should be accepted.
+ * @returns {string} `Accepted` or `Rejected`.
+ */
+function expectedText(expectedAccept: boolean): string {
+  return expectedAccept ? "Accepted" : "Rejected";
+}
+
+/**
+ * Quotes a field for a CSV file if it needs it, following RFC 4180.
+ * @param {string} field The text of the field.
+ * @returns {string} The field, quoted if it contains a comma, quote or line
+ * break.
+ */
+export function csvField(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Escapes text so it can be used in XML content and attribute values.
+ * @param {string} text The text to escape.
+ * @returns {string} The escaped text.
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Writes a test report as JSON.
+ * @param {Array<TestReportEntry>} entries The result of each test, in order.
+ * @returns {string} The report, with a summary of how many tests passed
+ * followed by the result of each test.
+ */
+export function testReportToJSON(entries: Array<TestReportEntry>): string {
+  return JSON.stringify(
+    {
+      total: entries.length,
+      passed: entries.filter((entry) => entry.passed).length,
+      failed: entries.filter((entry) => !entry.passed).length,
+      results: entries.map((entry) => ({
+        string: entry.string,
+        expected: expectedText(entry.expectedAccept),
+        actual: entry.actual,
+        passed: entry.passed,
+        finalStates: entry.finalStates,
+      })),
+    },
+    null,
+    4,
+  );
+}
+
+/**
+ * Writes a test report as CSV, with a header row and then one row for each
+ * test. When a machine ends in more than one state, they are separated by
+ * spaces.
+ * @param {Array<TestReportEntry>} entries The result of each test, in order.
+ * @returns {string} The report.
+ */
+export function testReportToCSV(entries: Array<TestReportEntry>): string {
+  const rows = [["string", "expected", "actual", "result", "final state"]];
+  entries.forEach((entry) =>
+    rows.push([
+      entry.string,
+      expectedText(entry.expectedAccept),
+      entry.actual,
+      entry.passed ? "pass" : "fail",
+      entry.finalStates.join(" "),
+    ]),
+  );
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Writes a test report as JUnit XML, so it can be read by tools that read
+ * unit test results. Each test is a test case named after its string (or `ε`
+ * for the empty string), and each failed test has a failure saying what went
+ * wrong.
+ * @param {Array<TestReportEntry>} entries The result of each test, in order.
+ * @param {string} suiteName The name of the test suite, such as the name of
+ * the automaton.
+ * @returns {string} The report.
+ */
+export function testReportToJUnitXML(
+  entries: Array<TestReportEntry>,
+  suiteName: string,
+): string {
+  const suite = escapeXML(suiteName);
+  const failures = entries.filter((entry) => !entry.passed).length;
+  const testCases = entries.map((entry) => {
+    const name = escapeXML(entry.string === "" ? "ε" : entry.string);
+    const finalStates = escapeXML(
+      `Final states: ${entry.finalStates.join(" ") || "none"}`,
+    );
+    const failure = entry.passed
+      ? ""
+      : `\n      <failure message="${escapeXML(
+          `Expected ${expectedText(entry.expectedAccept)}, got ${entry.actual}`,
+        )}" type="AssertionError"/>`;
+    return (
+      `    <testcase name="${name}" classname="${suite}">${failure}\n` +
+      `      <system-out>${finalStates}</system-out>\n` +
+      `    </testcase>`
+    );
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites tests="${entries.length}" failures="${failures}">`,
+    `  <testsuite name="${suite}" tests="${entries.length}" failures="${failures}" errors="0">`,
+    ...testCases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
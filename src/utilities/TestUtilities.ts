@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  SerializableAutomaton,
+  SerializableToken,
+} from "../SerializableAutomaton";
+import { NFARunStatus, runNFA } from "./NFAUtilities";
+import { parseRegex, thompsonConstruction } from "./RegexUtilities";
+
+/**
+ * A reference that a test file can supply to describe the language the
+ * automaton is meant to accept. Exactly one of the fields should be set.
+ */
+export interface TestReference {
+  /** A regular expression for the intended language. */
+  regex?: string;
+
+  /** An automaton (DFA or NFA) for the intended language. */
+  automaton?: SerializableAutomaton;
+}
+
+/** A single test, as written to tests files. */
+export interface SerializableTestCase {
+  /** The string to run on the automaton. */
+  string: string;
+
+  /** Whether the automaton should accept the string. */
+  expectedAccept: boolean;
+}
+
+/** A test shown in the Tests panel. */
+export interface TestCase extends SerializableTestCase {
+  /**
+   * Identifies the test while the program runs, and keys its result. Unlike
+   * its position in the list, it doesn't change when tests are moved. It
+   * isn't saved.
+   */
+  id: string;
+
+  /** Whether the test was added by Find Counterexample. */
+  generated?: boolean;
+}
+
+/**
+ * Creates a test for the Tests panel from a test read from a file.
+ * @param {SerializableTestCase} test The test that was read.
+ * @returns {TestCase} A new test with the same string and expected result,
+ * and a new ID.
+ */
+export function toTestCase(test: SerializableTestCase): TestCase {
+  return {
+    id: uuidv4(),
+    string: test.string,
+    expectedAccept: test.expectedAccept,
+  };
+}
+
+/**
+ * Checks if the given value is a test that can be read from a file.
+ * @param value The value to check.
+ * @returns {boolean} `true` if the value has a string and an expected result,
+ * and `false` otherwise.
+ */
+export function isValidTestCase(value: unknown): value is SerializableTestCase {
+  const test = value as SerializableTestCase;
+  return (
+    typeof test === "object" &&
+    test !== null &&
+    typeof test.string === "string" &&
+    typeof test.expectedAccept === "boolean"
+  );
+}
+
+/**
+ * The contents of a tests file. At most one of the reference fields should
+ * be set; see `TestReference`.
+ */
+export interface SerializableTestFile {
+  tests: Array<SerializableTestCase>;
+  referenceRegex?: string;
+  referenceAutomaton?: SerializableAutomaton;
+}
+
+/**
+ * Builds the contents of a tests file, in the same format that the Tests
+ * panel reads.
+ * @param {Array<SerializableTestCase>} tests The tests to write. Any other
+ * fields they have are left out.
+ * @param {TestReference | null} reference The reference for the intended
+ * language, if there is one.
+ * @returns {SerializableTestFile} The contents of the tests file.
+ */
+export function toSerializableTestFile(
+  tests: Array<SerializableTestCase>,
+  reference: TestReference | null,
+): SerializableTestFile {
+  return {
+    tests: tests.map((test) => ({
+      string: test.string,
+      expectedAccept: test.expectedAccept,
+    })),
+    ...(reference?.regex !== undefined && {
+      referenceRegex: reference.regex,
+    }),
+    ...(reference?.automaton !== undefined && {
+      referenceAutomaton: reference.automaton,
+    }),
+  };
+}
+
+/**
+ * Builds an automaton for a test reference.
+ * @param {TestReference} reference The reference to build an automaton for.
+ * @param {Array<SerializableToken>} alphabet The alphabet to use if the
+ * reference is a regular expression.
+ * @returns {SerializableAutomaton} An automaton that accepts the reference
+ * language.
+ * @throws {Error} If the reference regular expression can't be parsed. The
+ * message says what is wrong with it.
+ */
+export function referenceToAutomaton(
+  reference: TestReference,
+  alphabet: Array<SerializableToken>,
+): SerializableAutomaton {
+  if (reference.automaton) {
+    return reference.automaton;
+  }
+
+  const symbols = alphabet.map((tok) => tok.symbol);
+  return thompsonConstruction(parseRegex(reference.regex, symbols), alphabet);
+}
+
+/**
+ * Checks whether an automaton (DFA or NFA) accepts a string. Symbols that are
+ * not in the automaton's alphabet are rejected.
+ * @param {SerializableAutomaton} automaton The automaton to run.
+ * @param {Array<string>} input The symbols of the string, in order.
+ * @returns {boolean} Whether the string is accepted.
+ */
+export function acceptsString(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): boolean {
+  return runNFA(automaton, input).status === NFARunStatus.Accepted;
+}
+
+/**
+ * Enumerates strings over the given symbols in length order (and, for
+ * strings of the same length, in the order the symbols are given), stopping
+ * at the first one that satisfies a predicate.
+ * @param {Array<string>} symbols The symbols to build strings from.
+ * @param {number} maxStrings The most strings to try before giving up.
+ * @param {(input: Array<string>) => boolean} predicate The condition to
+ * look for.
+ * @returns {Array<string> | null} The symbols of the first string that
+ * satisfies the predicate, or `null` if none of the strings tried do.
+ */
+export function findFirstString(
+  symbols: Array<string>,
+  maxStrings: number,
+  predicate: (input: Array<string>) => boolean,
+): Array<string> | null {
+  let currentLength: Array<Array<string>> = [[]];
+  let tried = 0;
+
+  while (currentLength.length > 0) {
+    const nextLength: Array<Array<string>> = [];
+    for (const input of currentLength) {
+      if (tried >= maxStrings) {
+        return null;
+      }
+      tried++;
+      if (predicate(input)) {
+        return input;
+      }
+      symbols.forEach((symbol) => nextLength.push([...input, symbol]));
+    }
+    currentLength = nextLength;
+  }
+
+  return null;
+}
@@ -0,0 +1,108 @@
+import { SerializableAutomaton } from "../SerializableAutomaton";
+
+/**
+ * The ways a transition can pick its tokens other than listing them one by
+ * one. The value of each entry is what gets written to saved automaton
+ * files.
+ *
+ * - `AllOther` - Every token that no other transition out of the same state
+ * accepts.
+ * - `AnyExcept` - Every token in the alphabet except the listed ones.
+ */
+export enum TokenSelectorKind {
+  AllOther = "allOther",
+  AnyExcept = "anyExcept",
+}
+
+/**
+ * Checks if the given value is one of the known token selector kinds.
+ * @param value The value to check, usually read from a saved automaton file.
+ * @returns {boolean} `true` if the value is a valid `TokenSelectorKind`, and
+ * `false` otherwise.
+ */
+export function isTokenSelectorKind(
+  value: unknown,
+): value is TokenSelectorKind {
+  return Object.values(TokenSelectorKind).includes(value as TokenSelectorKind);
+}
+
+/**
+ * The most tokens a range can add at once, so that a typo can't flood the
+ * alphabet with thousands of tokens.
+ */
+export const MaxTokenRangeSize = 256;
+
+/**
+ * Lists every character in a range of tokens, written like `a-z`.
+ * @param {string} range The range to read. Whitespace around it is ignored.
+ * @returns {Array<string> | null} The symbol of each token in the range, in
+ * order, or `null` if the text isn't a range of single characters with the
+ * first no later than the last.
+ */
+export function expandTokenRange(range: string): Array<string> | null {
+  const match = /^(.)-(.)$/.exec(range.trim());
+  if (!match) {
+    return null;
+  }
+
+  const first = match[1].charCodeAt(0);
+  const last = match[2].charCodeAt(0);
+  if (first > last) {
+    return null;
+  }
+
+  const symbols: Array<string> = [];
+  for (let code = first; code <= last; code++) {
+    symbols.push(String.fromCharCode(code));
+  }
+  return symbols;
+}
+
+/**
+ * Fills in the tokens of every transition that uses a token selector, so that
+ * code that only looks at `tokens` sees every token the transition accepts.
+ *
+ * `AnyExcept` transitions are expanded first. `AllOther` transitions then get
+ * every token that no other transition out of the same state accepts, not
+ * counting other `AllOther` transitions.
+ * @param {SerializableAutomaton} automaton The automaton to expand. It isn't
+ * modified.
+ * @returns {SerializableAutomaton} A copy of the automaton with the tokens of
+ * each transition with a selector filled in. The selectors are kept, so the
+ * copy can still be saved and loaded.
+ */
+export function expandTokenSelectors(
+  automaton: SerializableAutomaton,
+): SerializableAutomaton {
+  const tokenIDs = automaton.alphabet.map((tok) => tok.id);
+
+  const withAnyExcept = automaton.transitions.map((trans) =>
+    trans.tokenSelector?.kind === TokenSelectorKind.AnyExcept
+      ? {
+          ...trans,
+          tokens: tokenIDs.filter(
+            (id) => !trans.tokenSelector.except.includes(id),
+          ),
+        }
+      : trans,
+  );
+
+  const transitions = withAnyExcept.map((trans) => {
+    if (trans.tokenSelector?.kind !== TokenSelectorKind.AllOther) {
+      return trans;
+    }
+
+    const usedTokens = new Set<string>();
+    withAnyExcept.forEach((other) => {
+      if (
+        other.source === trans.source &&
+        other.tokenSelector?.kind !== TokenSelectorKind.AllOther
+      ) {
+        other.tokens.forEach((id) => usedTokens.add(id));
+      }
+    });
+    return { ...trans, tokens: tokenIDs.filter((id) => !usedTokens.has(id)) };
+  });
+
+  return { ...automaton, transitions: transitions };
+}
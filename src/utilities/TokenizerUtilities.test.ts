@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  TokenizeStatus,
+  joinTokens,
+  tokenizeInput,
+} from "./TokenizerUtilities";
+
+describe("tokenizeInput", () => {
+  it("splits single-character symbols", () => {
+    expect(tokenizeInput("abba", ["a", "b"])).toEqual({
+      status: TokenizeStatus.Success,
+      tokens: ["a", "b", "b", "a"],
+    });
+  });
+
+  it("splits the empty string into no tokens", () => {
+    expect(tokenizeInput("", ["a"])).toEqual({
+      status: TokenizeStatus.Success,
+      tokens: [],
+    });
+  });
+
+  it("takes the longest symbol at each position", () => {
+    expect(tokenizeInput("if", ["i", "f", "if"])).toEqual({
+      status: TokenizeStatus.Success,
+      tokens: ["if"],
+    });
+    expect(tokenizeInput("iff", ["i", "f", "if"])).toEqual({
+      status: TokenizeStatus.Success,
+      tokens: ["if", "f"],
+    });
+    expect(tokenizeInput("aab", ["a", "ab", "b"])).toEqual({
+      status: TokenizeStatus.Success,
+      tokens: ["a", "ab"],
+    });
+  });
+
+  it("reports an ambiguous split when longest match gets stuck", () => {
+    expect(tokenizeInput("abc", ["a", "ab", "bc"])).toEqual({
+      status: TokenizeStatus.Ambiguous,
+      tokens: ["a", "bc"],
+    });
+  });
+
+  it("rejects symbols that aren't in the alphabet", () => {
+    expect(tokenizeInput("abx", ["a", "b"])).toEqual({
+      status: TokenizeStatus.InvalidTokens,
+      tokens: [],
+    });
+  });
+
+  it("splits at the separator when there is one", () => {
+    expect(tokenizeInput("i f  if", ["i", "f", "if"], " ")).toEqual({
+      status: TokenizeStatus.Success,
+      tokens: ["i", "f", "if"],
+    });
+    expect(tokenizeInput("i x", ["i", "f"], " ")).toEqual({
+      status: TokenizeStatus.InvalidTokens,
+      tokens: [],
+    });
+  });
+});
+
+describe("joinTokens", () => {
+  it("joins tokens that split back the same way", () => {
+    expect(joinTokens(["a", "ab"], ["a", "b", "ab"])).toBe("aab");
+    expect(joinTokens(["a", "b"], ["a", "b", "ab"], " ")).toBe("a b");
+  });
+
+  it("rejects tokens that join into a different split", () => {
+    expect(joinTokens(["a", "b"], ["a", "b", "ab"])).toBeNull();
+    expect(joinTokens(["a", "bc"], ["a", "ab", "bc"])).toBeNull();
+  });
+});
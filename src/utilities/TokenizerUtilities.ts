@@ -0,0 +1,131 @@
+/**
+ * The possible outcomes of splitting an input string into tokens.
+ *
+ * - `Success` - The input splits into tokens by longest match (or by the
+ * token separator, if there is one).
+ * - `InvalidTokens` - The input can't be split into tokens from the alphabet.
+ * - `Ambiguous` - The input can be split into tokens, but not by longest
+ * match, such as `abc` when the alphabet has `a`, `ab` and `bc` (taking `ab`
+ * first leaves `c`). Using a token separator avoids this.
+ */
+export enum TokenizeStatus {
+  Success,
+  InvalidTokens,
+  Ambiguous,
+}
+
+/** The result of splitting an input string into tokens. */
+export interface TokenizeResult {
+  /** How the split concluded. */
+  status: TokenizeStatus;
+
+  /**
+   * The symbols of the tokens, in order. When the split is ambiguous, this
+   * is the split found by backing up to shorter tokens where the longest
+   * match fails. Empty if the input can't be split.
+   */
+  tokens: Array<string>;
+}
+
+/**
+ * Splits an input string into the symbols of an alphabet, where symbols may
+ * be more than one character long.
+ *
+ * Without a separator, the split is found by longest match (maximal munch):
+ * the longest symbol that fits is taken at each position, so with the
+ * alphabet `i`, `f` and `if`, the input `if` is the single token `if`. If
+ * that leaves part of the input that no symbol fits, but the input could be
+ * split another way, the split is reported as ambiguous.
+ *
+ * With a separator, the input is split at each occurrence of it, and each
+ * piece must be a whole symbol. Empty pieces (such as from repeated
+ * separators) are skipped.
+ * @param {string} input The input string to split.
+ * @param {Array<string>} alphabet The symbols of the tokens that may appear
+ * in the input.
+ * @param {string} separator The text that separates tokens, or an empty
+ * string to split by longest match.
+ * @returns {TokenizeResult} The outcome of the split, along with the tokens.
+ */
+export function tokenizeInput(
+  input: string,
+  alphabet: Array<string>,
+  separator: string = "",
+): TokenizeResult {
+  if (separator !== "") {
+    const pieces = input.split(separator).filter((piece) => piece !== "");
+    if (!pieces.every((piece) => alphabet.includes(piece))) {
+      return { status: TokenizeStatus.InvalidTokens, tokens: [] };
+    }
+    return { status: TokenizeStatus.Success, tokens: pieces };
+  }
+
+  // Longest symbols first, so that the longest match is always found first
+  const symbols = alphabet
+    .filter((symbol, i) => symbol.length > 0 && alphabet.indexOf(symbol) === i)
+    .sort((a, b) => b.length - a.length);
+
+  const longestMatch: Array<string> = [];
+  let pos = 0;
+  while (pos < input.length) {
+    const symbol = symbols.find((s) => input.startsWith(s, pos));
+    if (symbol === undefined) break;
+    longestMatch.push(symbol);
+    pos += symbol.length;
+  }
+  if (pos === input.length) {
+    return { status: TokenizeStatus.Success, tokens: longestMatch };
+  }
+
+  // Longest match got stuck, so check whether backing up to shorter symbols
+  // would have split the input
+  const canSplitFrom: Array<boolean> = new Array(input.length + 1).fill(false);
+  canSplitFrom[input.length] = true;
+  for (let i = input.length - 1; i >= 0; i--) {
+    canSplitFrom[i] = symbols.some(
+      (symbol) =>
+        input.startsWith(symbol, i) && canSplitFrom[i + symbol.length],
+    );
+  }
+  if (!canSplitFrom[0]) {
+    return { status: TokenizeStatus.InvalidTokens, tokens: [] };
+  }
+
+  const tokens: Array<string> = [];
+  pos = 0;
+  while (pos < input.length) {
+    const symbol = symbols.find(
+      (s) => input.startsWith(s, pos) && canSplitFrom[pos + s.length],
+    );
+    tokens.push(symbol);
+    pos += symbol.length;
+  }
+  return { status: TokenizeStatus.Ambiguous, tokens: tokens };
+}
+
+/**
+ * Joins tokens into an input string, and checks that the string splits back
+ * into the same tokens. Without a separator, it might not: with the alphabet
+ * `a`, `b` and `ab`, the tokens `a` and `b` join to `ab`, which splits into
+ * the single token `ab`.
+ * @param {Array<string>} tokens The symbols of the tokens to join.
+ * @param {Array<string>} alphabet The symbols of the tokens that may appear
+ * in the input.
+ * @param {string} separator The text that separates tokens, or an empty
+ * string to split by longest match.
+ * @returns {string | null} The joined input string, or `null` if it doesn't
+ * split back into the same tokens.
+ */
+export function joinTokens(
+  tokens: Array<string>,
+  alphabet: Array<string>,
+  separator: string = "",
+): string | null {
+  const input = tokens.join(separator);
+  const result = tokenizeInput(input, alphabet, separator);
+  const splitsBack =
+    result.status === TokenizeStatus.Success &&
+    result.tokens.length === tokens.length &&
+    result.tokens.every((symbol, i) => symbol === tokens[i]);
+  return splitsBack ? input : null;
+}
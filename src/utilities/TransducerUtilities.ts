@@ -0,0 +1,123 @@
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+import { isDeterministic } from "./DFAUtilities";
+
+/**
+ * The possible outcomes of running an input string on a Mealy or Moore
+ * machine.
+ *
+ * - `Completed` - The whole input was consumed, and the output was produced.
+ * - `InvalidMachine` - The machine could not be run, because it has no start
+ * state or isn't deterministic (it has ε transitions, or more than one
+ * transition out of a state for the same token).
+ * - `InvalidInputTokens` - The input contained a symbol that is not in the
+ * automaton's alphabet.
+ * - `MissingTransition` - The machine reached a state with no transition for
+ * the next input token.
+ */
+export enum TransducerRunStatus {
+  Completed,
+  InvalidMachine,
+  InvalidInputTokens,
+  MissingTransition,
+}
+
+/** The result of running an input string on a Mealy or Moore machine. */
+export interface TransducerRunResult {
+  /** How the run concluded. */
+  status: TransducerRunStatus;
+
+  /**
+   * The symbols of the output produced, in order. If the machine got stuck
+   * part way through, this is the output produced up to that point.
+   */
+  output: Array<string>;
+
+  /**
+   * The IDs of the states the machine was in, starting with the start state.
+   * Empty if the machine couldn't run.
+   */
+  path: Array<string>;
+}
+
+/**
+ * Runs an input string on the given Mealy or Moore machine.
+ *
+ * A Mealy machine outputs a symbol for each transition it follows, as given
+ * by the transition's `outputs`. A Moore machine outputs the `output` of each
+ * state it enters, starting with the start state, so its output is always one
+ * symbol longer than its input. Transitions and states without an output
+ * don't output anything.
+ * @param {SerializableAutomaton} automaton The machine to run. Its `type`
+ * decides whether it is run as a Mealy or a Moore machine.
+ * @param {Array<string>} input The symbols of the input string, in order.
+ * @returns {TransducerRunResult} The outcome of the run, along with the
+ * output produced.
+ */
+export function runTransducer(
+  automaton: SerializableAutomaton,
+  input: Array<string>,
+): TransducerRunResult {
+  const stateIDs = automaton.states.map((state) => state.id);
+  if (!stateIDs.includes(automaton.startState) || !isDeterministic(automaton)) {
+    return { status: TransducerRunStatus.InvalidMachine, output: [], path: [] };
+  }
+
+  const tokenIDs = input.map(
+    (symbol) => automaton.alphabet.find((tok) => tok.symbol === symbol)?.id,
+  );
+  if (tokenIDs.some((id) => id === undefined)) {
+    return {
+      status: TransducerRunStatus.InvalidInputTokens,
+      output: [],
+      path: [],
+    };
+  }
+
+  const isMoore = automaton.type === AutomatonType.Moore;
+  const outputSymbolFor = (outputID: string | undefined) =>
+    automaton.outputAlphabet?.find((tok) => tok.id === outputID)?.symbol;
+  const output: Array<string> = [];
+  const emit = (symbol: string | undefined) => {
+    if (symbol !== undefined) {
+      output.push(symbol);
+    }
+  };
+  const stateOutput = (stateID: string) =>
+    outputSymbolFor(
+      automaton.states.find((state) => state.id === stateID).output,
+    );
+
+  let current = automaton.startState;
+  const path = [current];
+  if (isMoore) {
+    emit(stateOutput(current));
+  }
+
+  for (const tokenID of tokenIDs) {
+    const trans = automaton.transitions.find(
+      (t) => t.source === current && t.tokens.includes(tokenID),
+    );
+    if (!trans) {
+      return {
+        status: TransducerRunStatus.MissingTransition,
+        output: output,
+        path: path,
+      };
+    }
+
+    current = trans.dest;
+    path.push(current);
+    if (isMoore) {
+      emit(stateOutput(current));
+    } else {
+      emit(
+        outputSymbolFor(
+          trans.outputs?.find((out) => out.token === tokenID)?.output,
+        ),
+      );
+    }
+  }
+
+  return { status: TransducerRunStatus.Completed, output: output, path: path };
+}
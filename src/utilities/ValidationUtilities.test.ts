@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SerializableAutomaton } from "../SerializableAutomaton";
+import { AutomatonType } from "../AutomatonType";
+import { TMMove } from "./TMUtilities";
+import { TokenSelectorKind } from "./TokenSelectorUtilities";
+import { isValidAutomaton } from "./ValidationUtilities";
+
+/** A DFA over {0, 1} that accepts strings ending in 1. */
+function endsInOne(): SerializableAutomaton {
+  return {
+    states: [
+      { id: "s0", x: 0, y: 0, label: "q0" },
+      { id: "s1", x: 100, y: 0, label: "q1" },
+    ],
+    alphabet: [
+      { id: "t0", symbol: "0" },
+      { id: "t1", symbol: "1" },
+    ],
+    transitions: [
+      {
+        id: "r0",
+        source: "s0",
+        dest: "s0",
+        isEpsilonTransition: false,
+        tokens: ["t0"],
+      },
+      {
+        id: "r1",
+        source: "s0",
+        dest: "s1",
+        isEpsilonTransition: false,
+        tokens: ["t1"],
+      },
+      {
+        id: "r2",
+        source: "s1",
+        dest: "s0",
+        isEpsilonTransition: false,
+        tokens: ["t0"],
+      },
+      {
+        id: "r3",
+        source: "s1",
+        dest: "s1",
+        isEpsilonTransition: false,
+        tokens: ["t1"],
+      },
+    ],
+    startState: "s0",
+    acceptStates: ["s1"],
+  };
+}
+
+describe("isValidAutomaton", () => {
+  // Invalid automata are logged, which would clutter the test output
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("accepts a well-formed automaton", () => {
+    expect(isValidAutomaton(endsInOne())).toEqual([true, ""]);
+  });
+
+  it("accepts optional fields with the right types", () => {
+    const automaton: SerializableAutomaton = {
+      ...endsInOne(),
+      type: AutomatonType.NFA,
+      tokenSeparator: " ",
+      tests: [{ string: "01", expectedAccept: true }],
+    };
+    expect(isValidAutomaton(automaton)).toEqual([true, ""]);
+  });
+
+  it("rejects an automaton with missing fields", () => {
+    const automaton: SerializableAutomaton = {
+      ...endsInOne(),
+      transitions: undefined,
+    };
+    expect(isValidAutomaton(automaton)).toEqual([
+      false,
+      "This automaton could not be read.",
+    ]);
+  });
+
+  it("rejects a start state that doesn't exist", () => {
+    const automaton = { ...endsInOne(), startState: "missing" };
+    expect(isValidAutomaton(automaton)).toEqual([
+      false,
+      "This automaton's start state could not be read.",
+    ]);
+  });
+
+  it("rejects a transition to a state that doesn't exist", () => {
+    const automaton = endsInOne();
+    automaton.transitions[0].dest = "missing";
+    expect(isValidAutomaton(automaton)).toEqual([
+      false,
+      "This automaton's transitions could not be read.",
+    ]);
+  });
+
+  it("rejects a transition on a token that isn't in the alphabet", () => {
+    const automaton = endsInOne();
+    automaton.transitions[0].tokens = ["missing"];
+    expect(isValidAutomaton(automaton)[0]).toBe(false);
+  });
+
+  it("rejects an unknown automaton type", () => {
+    const automaton = {
+      ...endsInOne(),
+      type: "quantum" as AutomatonType,
+    };
+    expect(isValidAutomaton(automaton)).toEqual([
+      false,
+      "This automaton's type could not be read.",
+    ]);
+  });
+
+  it("rejects badly formed tests", () => {
+    const automaton = {
+      ...endsInOne(),
+      tests: [{ string: "01" }] as SerializableAutomaton["tests"],
+    };
+    expect(isValidAutomaton(automaton)).toEqual([
+      false,
+      "This automaton's tests could not be read.",
+    ]);
+  });
+
+  it("checks the symbols used by Turing machine rules", () => {
+    const automaton: SerializableAutomaton = {
+      ...endsInOne(),
+      type: AutomatonType.TM,
+    };
+    automaton.transitions[0].tmRules = [
+      { read: "t0", write: "t1", move: TMMove.Right },
+    ];
+    expect(isValidAutomaton(automaton)).toEqual([true, ""]);
+
+    automaton.transitions[0].tmRules = [
+      { read: "missing", write: "t1", move: TMMove.Right },
+    ];
+    expect(isValidAutomaton(automaton)[0]).toBe(false);
+  });
+
+  it("accepts PDA rules kept after switching to another type", () => {
+    const automaton: SerializableAutomaton = {
+      ...endsInOne(),
+      stackAlphabet: [{ id: "k0", symbol: "X" }],
+    };
+    automaton.transitions[0].pdaRules = [
+      { input: "t0", pop: null, push: ["k0"] },
+    ];
+    expect(isValidAutomaton(automaton)).toEqual([true, ""]);
+
+    delete automaton.stackAlphabet;
+    expect(isValidAutomaton(automaton)[0]).toBe(false);
+  });
+
+  it("accepts Turing machine rules kept after switching to another type", () => {
+    const automaton: SerializableAutomaton = {
+      ...endsInOne(),
+      tapeAlphabet: [{ id: "k0", symbol: "X" }],
+    };
+    automaton.transitions[0].tmRules = [
+      { read: "t0", write: "k0", move: TMMove.Right },
+    ];
+    expect(isValidAutomaton(automaton)).toEqual([true, ""]);
+
+    delete automaton.tapeAlphabet;
+    expect(isValidAutomaton(automaton)[0]).toBe(false);
+  });
+
+  it("accepts outputs kept after switching to another type", () => {
+    const automaton: SerializableAutomaton = {
+      ...endsInOne(),
+      outputAlphabet: [{ id: "o0", symbol: "x" }],
+    };
+    automaton.states[0].output = "o0";
+    automaton.transitions[0].outputs = [{ token: "t0", output: "o0" }];
+    expect(isValidAutomaton(automaton)).toEqual([true, ""]);
+
+    delete automaton.outputAlphabet;
+    expect(isValidAutomaton(automaton)[0]).toBe(false);
+  });
+
+  it("checks outputs against the tokens a token selector picks", () => {
+    const automaton: SerializableAutomaton = {
+      ...endsInOne(),
+      type: AutomatonType.Mealy,
+      outputAlphabet: [{ id: "o0", symbol: "x" }],
+    };
+    automaton.transitions[1] = {
+      ...automaton.transitions[1],
+      tokens: [],
+      tokenSelector: { kind: TokenSelectorKind.AllOther, except: [] },
+      outputs: [{ token: "t1", output: "o0" }],
+    };
+    expect(isValidAutomaton(automaton)).toEqual([true, ""]);
+
+    automaton.transitions[1].outputs = [{ token: "t0", output: "o0" }];
+    expect(isValidAutomaton(automaton)).toEqual([
+      false,
+      "This automaton's transition outputs could not be read.",
+    ]);
+  });
+
+  it("rejects a step limit that is out of range", () => {
+    const automaton = { ...endsInOne(), tmStepLimit: 0 };
+    expect(isValidAutomaton(automaton)).toEqual([
+      false,
+      "This automaton's step limit could not be read.",
+    ]);
+  });
+});
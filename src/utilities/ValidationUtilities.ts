@@ -0,0 +1,275 @@
+import {
+  SerializableAutomaton,
+  SerializablePDARule,
+  SerializableState,
+  SerializableTMRule,
+  SerializableToken,
+  SerializableTokenSelector,
+  SerializableTransition,
+  SerializableTransitionOutput,
+} from "../SerializableAutomaton";
+import { isAutomatonType } from "../AutomatonType";
+import { isPDAAcceptanceMode } from "./PDAUtilities";
+import { MaxTMStepLimit, isTMMove } from "./TMUtilities";
+import { isValidTestCase } from "./TestUtilities";
+import {
+  TokenSelectorKind,
+  expandTokenSelectors,
+  isTokenSelectorKind,
+} from "./TokenSelectorUtilities";
+
+/**
+ * Checks that the given data, usually read from a saved automaton file, is a
+ * well-formed automaton: every field has the right type, and every state,
+ * token and symbol referred to by ID exists.
+ * @param {SerializableAutomaton} json The data to check.
+ * @returns {[boolean, string]} `[true, ""]` if the automaton is valid, and
+ * otherwise `false` with a message saying which part couldn't be read.
+ */
+export function isValidAutomaton(
+  json: SerializableAutomaton,
+): [boolean, string] {
+  // for now just console log, not sure how to desiplay window
+  if (
+    !json ||
+    !json.states ||
+    !json.alphabet ||
+    !json.transitions ||
+    !json.startState ||
+    !json.acceptStates
+  ) {
+    console.error("Missing required fields");
+    return [false, "This automaton could not be read."];
+  }
+
+  if (!json.states.every((state) => isValidState(state))) {
+    console.error("states not properly formatted");
+    return [false, "This automaton's states could not be read."];
+  }
+
+  if (!json.alphabet.every((token) => isValidToken(token))) {
+    console.error("alphabet not properly formatted");
+    return [false, "This automaton's alphabet could not be read."];
+  }
+
+  if (
+    !json.transitions.every((transition) => isValidTransition(transition, json))
+  ) {
+    console.error("Invalid 'transitions' format.");
+    return [false, "This automaton's transitions could not be read."];
+  }
+
+  // A transition can only have outputs for tokens it accepts, which for one
+  // with a token selector depends on the other transitions
+  if (
+    !expandTokenSelectors(json).transitions.every((transition) =>
+      (transition.outputs ?? []).every((out) =>
+        transition.tokens.includes(out.token),
+      ),
+    )
+  ) {
+    console.error("Invalid transition 'outputs' format.");
+    return [false, "This automaton's transition outputs could not be read."];
+  }
+
+  if (
+    typeof json.startState !== "string" ||
+    !json.states.some((state) => state.id === json.startState)
+  ) {
+    console.error("Invalid 'startState' format.");
+    return [false, "This automaton's start state could not be read."];
+  }
+
+  if (!isArrayOfStrings(json.acceptStates)) {
+    console.error("Invalid 'acceptStates' format.");
+    return [false, "This automaton's accept states could not be read."];
+  }
+
+  if (json.type !== undefined && !isAutomatonType(json.type)) {
+    console.error("Invalid 'type' format.");
+    return [false, "This automaton's type could not be read."];
+  }
+
+  if (
+    json.stackAlphabet !== undefined &&
+    !(
+      Array.isArray(json.stackAlphabet) &&
+      json.stackAlphabet.every((token) => isValidToken(token))
+    )
+  ) {
+    console.error("stack alphabet not properly formatted");
+    return [false, "This automaton's stack alphabet could not be read."];
+  }
+
+  if (
+    json.pdaAcceptance !== undefined &&
+    !isPDAAcceptanceMode(json.pdaAcceptance)
+  ) {
+    console.error("Invalid 'pdaAcceptance' format.");
+    return [false, "This automaton's PDA acceptance mode could not be read."];
+  }
+
+  if (json.rejectStates !== undefined && !isArrayOfStrings(json.rejectStates)) {
+    console.error("Invalid 'rejectStates' format.");
+    return [false, "This automaton's reject states could not be read."];
+  }
+
+  if (
+    json.tapeAlphabet !== undefined &&
+    !(
+      Array.isArray(json.tapeAlphabet) &&
+      json.tapeAlphabet.every((token) => isValidToken(token))
+    )
+  ) {
+    console.error("tape alphabet not properly formatted");
+    return [false, "This automaton's tape alphabet could not be read."];
+  }
+
+  if (
+    json.tmStepLimit !== undefined &&
+    !(
+      Number.isInteger(json.tmStepLimit) &&
+      json.tmStepLimit >= 1 &&
+      json.tmStepLimit <= MaxTMStepLimit
+    )
+  ) {
+    console.error("Invalid 'tmStepLimit' format.");
+    return [false, "This automaton's step limit could not be read."];
+  }
+
+  if (
+    json.tokenSeparator !== undefined &&
+    typeof json.tokenSeparator !== "string"
+  ) {
+    console.error("Invalid 'tokenSeparator' format.");
+    return [false, "This automaton's token separator could not be read."];
+  }
+
+  if (
+    json.outputAlphabet !== undefined &&
+    !(
+      Array.isArray(json.outputAlphabet) &&
+      json.outputAlphabet.every((token) => isValidToken(token))
+    )
+  ) {
+    console.error("output alphabet not properly formatted");
+    return [false, "This automaton's output alphabet could not be read."];
+  }
+
+  if (
+    json.tests !== undefined &&
+    !(Array.isArray(json.tests) && json.tests.every(isValidTestCase))
+  ) {
+    console.error("Invalid 'tests' format.");
+    return [false, "This automaton's tests could not be read."];
+  }
+
+  const outputSymbolIds = new Set(
+    json.outputAlphabet?.map((token) => token.id) || [],
+  );
+  if (
+    !json.states.every(
+      (state) =>
+        state.output === undefined || outputSymbolIds.has(state.output),
+    )
+  ) {
+    console.error("Invalid state 'output' format.");
+    return [false, "This automaton's state outputs could not be read."];
+  }
+
+  return [true, ""];
+}
+
+function isValidState(state: SerializableState): boolean {
+  return (
+    typeof state.id === "string" &&
+    typeof state.x === "number" &&
+    typeof state.y === "number" &&
+    typeof state.label === "string"
+  );
+}
+
+function isValidToken(token: SerializableToken): boolean {
+  return typeof token.id === "string" && typeof token.symbol === "string";
+}
+
+function isValidTransition(
+  transition: SerializableTransition,
+  json: SerializableAutomaton,
+): boolean {
+  if (
+    typeof transition.id !== "string" ||
+    typeof transition.source !== "string" ||
+    typeof transition.dest !== "string" ||
+    typeof transition.isEpsilonTransition !== "boolean" ||
+    !isArrayOfStrings(transition.tokens)
+  ) {
+    return false;
+  }
+
+  const stateIds = new Set(json.states?.map((state) => state.id) || []);
+  const tokenIds = new Set(json.alphabet?.map((token) => token.id) || []);
+
+  const stackSymbolIds = new Set(
+    json.stackAlphabet?.map((token: SerializableToken) => token.id) || [],
+  );
+  const isValidPDARule = (rule: SerializablePDARule) =>
+    rule !== null &&
+    typeof rule === "object" &&
+    (rule.input === null || tokenIds.has(rule.input)) &&
+    (rule.pop === null || stackSymbolIds.has(rule.pop)) &&
+    isArrayOfStrings(rule.push) &&
+    rule.push.every((symbol) => stackSymbolIds.has(symbol));
+
+  const tapeSymbolIds = new Set([
+    ...Array.from(tokenIds),
+    ...(json.tapeAlphabet?.map((token: SerializableToken) => token.id) || []),
+  ]);
+  const isValidTMRule = (rule: SerializableTMRule) =>
+    rule !== null &&
+    typeof rule === "object" &&
+    (rule.read === null || tapeSymbolIds.has(rule.read)) &&
+    (rule.write === null || tapeSymbolIds.has(rule.write)) &&
+    isTMMove(rule.move);
+
+  const outputSymbolIds = new Set(
+    json.outputAlphabet?.map((token: SerializableToken) => token.id) || [],
+  );
+  const isValidTokenSelector = (selector: SerializableTokenSelector) =>
+    selector !== null &&
+    typeof selector === "object" &&
+    isTokenSelectorKind(selector.kind) &&
+    isArrayOfStrings(selector.except) &&
+    selector.except.every((tok) => tokenIds.has(tok)) &&
+    (selector.kind === TokenSelectorKind.AnyExcept ||
+      selector.except.length === 0);
+
+  const isValidOutput = (out: SerializableTransitionOutput) =>
+    out !== null &&
+    typeof out === "object" &&
+    tokenIds.has(out.token) &&
+    outputSymbolIds.has(out.output);
+
+  return (
+    stateIds.has(transition.source) &&
+    stateIds.has(transition.dest) &&
+    transition.tokens.every((tok) => tokenIds.has(tok)) &&
+    (transition.pdaRules === undefined ||
+      (Array.isArray(transition.pdaRules) &&
+        transition.pdaRules.every(isValidPDARule))) &&
+    (transition.tmRules === undefined ||
+      (Array.isArray(transition.tmRules) &&
+        transition.tmRules.every(isValidTMRule))) &&
+    (transition.outputs === undefined ||
+      (Array.isArray(transition.outputs) &&
+        transition.outputs.every(isValidOutput))) &&
+    (transition.tokenSelector === undefined ||
+      isValidTokenSelector(transition.tokenSelector))
+  );
+}
+
+function isArrayOfStrings(value: unknown): boolean {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
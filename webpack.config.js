@@ -1,7 +1,6 @@
 const path = require("path");
 
-module.exports = {
-  entry: "./src/index.tsx",
+const common = {
   // Once this is ready for release, swap the commented and uncommented portions of the next two lines.
   mode: "development",
   devtool: "eval-cheap-module-source-map",
@@ -19,8 +18,28 @@ module.exports = {
   resolve: {
     extensions: [".tsx", ".ts", ".js"],
   },
-  output: {
-    filename: "bundle.js",
-    path: path.resolve(__dirname, "dist"),
-  },
 };
+
+module.exports = [
+  {
+    ...common,
+    name: "app",
+    entry: "./src/index.tsx",
+    output: {
+      filename: "bundle.js",
+      path: path.resolve(__dirname, "dist"),
+    },
+  },
+  // The command-line test runner, which runs under Node rather than in the
+  // browser
+  {
+    ...common,
+    name: "cli",
+    entry: "./src/cli.ts",
+    target: "node",
+    output: {
+      filename: "cli.js",
+      path: path.resolve(__dirname, "dist"),
+    },
+  },
+];